@@ -5,6 +5,7 @@ import FactoryMethodDemo from "./components/PatternDemos/FactoryMethodDemo";
 import AbstractFactoryDemo from "./components/PatternDemos/AbstractFactoryDemo";
 import BuilderDemo from "./components/PatternDemos/BuilderDemo";
 import PrototypeDemo from "./components/PatternDemos/PrototypeDemo";
+import InventoryProvider from "./components/InventoryProvider/InventoryProvider";
 
 function App() {
   return (
@@ -18,7 +19,9 @@ function App() {
             description="The Singleton pattern ensures a class has only one instance and provides a global point of access to it. This is useful when exactly one object is needed to coordinate actions across the system, like a central data store or a shared resource."
             patternType="singleton"
           >
-            <SingletonDemo />
+            <InventoryProvider>
+              <SingletonDemo />
+            </InventoryProvider>
           </PatternSection>
           
           <PatternSection
@@ -1,10 +1,35 @@
 import React from 'react';
+import { useLocale } from '../../hooks/useLocale';
+import { LOCALES, Locale, getDisplayCurrency } from '../../lib/i18n';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
 
 const Header: React.FC = () => {
+  const { locale, setLocale } = useLocale();
+
   return (
     <header className="bg-gradient-to-r from-blue-700 to-indigo-800 text-white py-10 px-6 shadow-lg">
       <div className="container mx-auto">
-        <h1 className="text-4xl font-bold mb-4">Creational Design Patterns</h1>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-4xl font-bold mb-4">Creational Design Patterns</h1>
+          <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+            <SelectTrigger className="w-48 bg-white/10 border-white/30 text-white" aria-label="Product language and currency">
+              <SelectValue placeholder="Language" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOCALES) as Locale[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {LOCALES[key].label} ({getDisplayCurrency(key)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <p className="text-xl opacity-80 max-w-3xl">
           Explore the five main creational design patterns - Singleton, Factory Method, 
           Abstract Factory, Builder, and Prototype - with interactive examples
@@ -14,4 +39,4 @@ const Header: React.FC = () => {
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Inventory } from '../../module/SingleTon/inventory';
+import { InventoryContext } from '../../hooks/inventoryContext';
+
+interface InventoryProviderProps {
+  // Use the instance of this tenant
+  tenant?: string;
+  // Or inject a specific instance, e.g. in tests; takes precedence over tenant
+  inventory?: Inventory;
+  children: React.ReactNode;
+}
+
+const InventoryProvider: React.FC<InventoryProviderProps> = ({ tenant, inventory, children }) => {
+  return (
+    <InventoryContext.Provider value={inventory ?? Inventory.getInstance(tenant)}>
+      {children}
+    </InventoryContext.Provider>
+  );
+};
+
+export default InventoryProvider;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { LogEvent, LogLevel } from '../../lib/logger';
+
+interface LogEventListProps {
+  events: LogEvent[];
+  emptyMessage?: string;
+  className?: string;
+}
+
+const levelStyles: Record<LogLevel, string> = {
+  debug: 'bg-gray-100 text-gray-600',
+  info: 'bg-blue-100 text-blue-700',
+  warn: 'bg-amber-100 text-amber-800',
+  error: 'bg-red-100 text-red-700',
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+// Renders structured log events, newest last, with their level and fields
+const LogEventList: React.FC<LogEventListProps> = ({
+  events,
+  emptyMessage = 'Nothing logged yet.',
+  className = ''
+}) => {
+  if (events.length === 0) {
+    return <p className={`text-xs text-gray-500 italic ${className}`}>{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className={`space-y-1 ${className}`}>
+      {events.map((event, i) => (
+        <li key={`${event.timestamp}-${i}`} className="text-xs border-b border-gray-100 pb-1">
+          <span className="text-gray-400 mr-1">{new Date(event.timestamp).toLocaleTimeString()}</span>
+          <span className={`px-1.5 py-0.5 rounded uppercase font-medium mr-1 ${levelStyles[event.level]}`}>{event.level}</span>
+          <span>{event.message}</span>
+          {Object.keys(event.fields).length > 0 && (
+            <span className="block text-gray-500 mt-0.5 font-mono">
+              {Object.entries(event.fields).map(([key, value]) => `${key}=${formatValue(value)}`).join(' ')}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LogEventList;
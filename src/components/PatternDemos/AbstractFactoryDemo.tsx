@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { RegularFruitFactory, OrganicFruitFactory } from '../../module/AbstractFactory/fruit';
+import { defaultFruitFamily, fruitFactoryRegistry } from '../../module/AbstractFactory/registry';
 import CreationalPatternView from '../CreationalPatternView/CreationalPatternView';
+import { useFactoryRegistry } from '../../hooks/useFactoryRegistry';
+import { useLocale } from '../../hooks/useLocale';
+import { formatMoney } from '../../lib/i18n';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Label } from '@/components/ui/label';
@@ -10,68 +13,76 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 
 const AbstractFactoryDemo: React.FC = () => {
-  const [selectedFactory, setSelectedFactory] = useState<'regular' | 'organic'>('regular');
+  const { registry, registrations } = useFactoryRegistry(fruitFactoryRegistry);
+  const [selectedFamily, setSelectedFamily] = useState<string | undefined>(() => registry.resolveKey(defaultFruitFamily));
   const [createdItems, setCreatedItems] = useState<Array<{
     name: string, 
-    description: string, 
-    details: string, 
+    // Rendered on every render, so descriptions follow the locale switcher
+    description: () => string, 
+    details: () => string, 
     type: 'fruit' | 'packaging' | 'gift-set'
   }>>([]);
+  useLocale();
+
+  // Falls back to the first family if the selected one has been unregistered
+  const selected = registry.getRegistration(registry.resolveKey(selectedFamily) ?? '');
+  const factory = selected ? registry.getFactory(selected.key) : null;
+  const familyName = selected ? selected.key.charAt(0).toUpperCase() + selected.key.slice(1) : '';
 
   // Product Family 1: Fruits
   const handleCreateApple = () => {
-    const factory = selectedFactory === 'regular' ? new RegularFruitFactory() : new OrganicFruitFactory();
+    if (!factory) return;
     const apple = factory.createApple();
     
     setCreatedItems(prev => [...prev, {
       name: `${apple.getType().charAt(0).toUpperCase() + apple.getType().slice(1)} Apple`,
-      description: apple.getDescription(),
-      details: apple.planting(),
+      description: () => apple.getDescription(),
+      details: () => apple.planting(),
       type: 'fruit'
     }]);
   };
 
   const handleCreateMelon = () => {
-    const factory = selectedFactory === 'regular' ? new RegularFruitFactory() : new OrganicFruitFactory();
+    if (!factory) return;
     const melon = factory.createMelon();
     
     setCreatedItems(prev => [...prev, {
       name: `${melon.getType().charAt(0).toUpperCase() + melon.getType().slice(1)} Melon`,
-      description: melon.getDescription(),
-      details: melon.planting(),
+      description: () => melon.getDescription(),
+      details: () => melon.planting(),
       type: 'fruit'
     }]);
   };
   
   // Product Family 2: Packaging
   const handleCreateFruitBox = () => {
-    const factory = selectedFactory === 'regular' ? new RegularFruitFactory() : new OrganicFruitFactory();
+    if (!factory) return;
     const box = factory.createFruitBox();
     
     setCreatedItems(prev => [...prev, {
-      name: `${selectedFactory.charAt(0).toUpperCase() + selectedFactory.slice(1)} Fruit Box`,
-      description: box.getDescription(),
-      details: `Material: ${box.getMaterial()}, Recyclable: ${box.isRecyclable() ? 'Yes' : 'No'}, Capacity: ${box.getCapacity()} fruits`,
+      name: `${familyName} Fruit Box`,
+      description: () => box.getDescription(),
+      details: () => `Material: ${box.getMaterial()}, Recyclable: ${box.isRecyclable() ? 'Yes' : 'No'}, Capacity: ${box.getCapacity()} fruits`,
       type: 'packaging'
     }]);
   };
   
   const handleCreateGiftWrapping = () => {
-    const factory = selectedFactory === 'regular' ? new RegularFruitFactory() : new OrganicFruitFactory();
+    if (!factory) return;
     const wrapping = factory.createGiftWrapping();
     
     setCreatedItems(prev => [...prev, {
-      name: `${selectedFactory.charAt(0).toUpperCase() + selectedFactory.slice(1)} Gift Wrapping`,
-      description: wrapping.getDescription(),
-      details: `Material: ${wrapping.getMaterial()}, Recyclable: ${wrapping.isRecyclable() ? 'Yes' : 'No'}, Includes Ribbon: ${wrapping.hasRibbon() ? 'Yes' : 'No'}`,
+      name: `${familyName} Gift Wrapping`,
+      description: () => wrapping.getDescription(),
+      details: () => `Material: ${wrapping.getMaterial()}, Recyclable: ${wrapping.isRecyclable() ? 'Yes' : 'No'}, Includes Ribbon: ${wrapping.hasRibbon() ? 'Yes' : 'No'}`,
       type: 'packaging'
     }]);
   };
   
   // Create combined products that demonstrate the family concept
   const handleCreateGiftBasket = () => {
-    const factory = selectedFactory === 'regular' ? new RegularFruitFactory() : new OrganicFruitFactory();
-    
+    if (!factory) return;
+
     // Get products from multiple families that are designed to work together
     const apple = factory.createApple();
     const melon = factory.createMelon();
@@ -81,9 +92,9 @@ const AbstractFactoryDemo: React.FC = () => {
     const totalCost = apple.getPrice() + melon.getPrice() + fruitBox.getCost() + giftWrapping.getCost();
     
     setCreatedItems(prev => [...prev, {
-      name: `${selectedFactory.charAt(0).toUpperCase() + selectedFactory.slice(1)} Gift Basket`,
-      description: `Complete gift basket with ${apple.getType()} apple, ${melon.getType()} melon, and matching packaging ($${totalCost.toFixed(2)} total)`,
-      details: `Contents: ${apple.getDescription()}, ${melon.getDescription()}, ${fruitBox.getDescription()}, ${giftWrapping.getDescription()}`,
+      name: `${familyName} Gift Basket`,
+      description: () => `Complete gift basket with ${apple.getType()} apple, ${melon.getType()} melon, and matching packaging (${formatMoney(totalCost)} total)`,
+      details: () => `Contents: ${apple.getDescription()}, ${melon.getDescription()}, ${fruitBox.getDescription()}, ${giftWrapping.getDescription()}`,
       type: 'gift-set'
     }]);
   };
@@ -102,20 +113,25 @@ const AbstractFactoryDemo: React.FC = () => {
 
           <div className="mb-5">
             <Label className="block text-sm font-medium mb-2">Select Factory Type</Label>
-            <RadioGroup 
-              value={selectedFactory} 
-              onValueChange={(value) => setSelectedFactory(value as 'regular' | 'organic')}
-              className="flex gap-4"
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="regular" id="regular" />
-                <Label htmlFor="regular">Regular Factory</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="organic" id="organic" />
-                <Label htmlFor="organic">Organic Factory</Label>
-              </div>
-            </RadioGroup>
+            {registrations.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No fruit families are registered.</p>
+            ) : (
+              <RadioGroup 
+                value={selected?.key ?? ''} 
+                onValueChange={(value) => setSelectedFamily(value)}
+                className="grid grid-cols-2 gap-2"
+              >
+                {registrations.map(registration => (
+                  <div key={registration.key} className="flex items-center space-x-2">
+                    <RadioGroupItem value={registration.key} id={`family-${registration.key}`} />
+                    <Label htmlFor={`family-${registration.key}`}>{registration.displayName}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+            {selected && (
+              <p className="text-xs text-gray-500 mt-2">{selected.metadata.description}</p>
+            )}
           </div>
 
           <Tabs defaultValue="fruits" className="mb-4">
@@ -131,12 +147,14 @@ const AbstractFactoryDemo: React.FC = () => {
                   <div className="grid grid-cols-2 gap-4">
                     <Button
                       onClick={handleCreateApple}
+                      disabled={!factory}
                       className="bg-purple-600 hover:bg-purple-700"
                     >
                       Create Apple
                     </Button>
                     <Button
                       onClick={handleCreateMelon}
+                      disabled={!factory}
                       className="bg-purple-600 hover:bg-purple-700"
                     >
                       Create Melon
@@ -153,12 +171,14 @@ const AbstractFactoryDemo: React.FC = () => {
                   <div className="grid grid-cols-2 gap-4">
                     <Button
                       onClick={handleCreateFruitBox}
+                      disabled={!factory}
                       className="bg-purple-600 hover:bg-purple-700"
                     >
                       Create Fruit Box
                     </Button>
                     <Button
                       onClick={handleCreateGiftWrapping}
+                      disabled={!factory}
                       className="bg-purple-600 hover:bg-purple-700"
                     >
                       Create Gift Wrap
@@ -172,6 +192,7 @@ const AbstractFactoryDemo: React.FC = () => {
           <div className="space-y-4">
             <Button
               onClick={handleCreateGiftBasket}
+              disabled={!factory}
               className="bg-purple-800 hover:bg-purple-900 w-full"
             >
               Create Gift Basket Set
@@ -229,9 +250,9 @@ const AbstractFactoryDemo: React.FC = () => {
                          'Product Family'}
                       </span>
                     </div>
-                    <p className="text-sm mt-1">{item.description}</p>
+                    <p className="text-sm mt-1">{item.description()}</p>
                     <Separator className="my-2" />
-                    <p className="text-xs text-gray-600">{item.details}</p>
+                    <p className="text-xs text-gray-600">{item.details()}</p>
                   </div>
                 ))}
               </div>
@@ -241,7 +262,7 @@ const AbstractFactoryDemo: React.FC = () => {
           <div className="mt-4">
             <CreationalPatternView
               title="Abstract Factory Pattern"
-              data={`The Abstract Factory pattern provides an interface for creating families of related or dependent objects without specifying their concrete classes. The ${selectedFactory} factory creates consistent product families that work together.`}
+              data={`The Abstract Factory pattern provides an interface for creating families of related or dependent objects without specifying their concrete classes. The ${selected?.key ?? 'selected'} factory creates consistent product families that work together.`}
               patternType="abstract-factory"
             />
           </div>
@@ -1,6 +1,19 @@
 import React, { useState } from 'react';
-import { LeafyGreenFactory, CruciferousFactory, RootVegetableFactory, FruitFactory } from '../../module/FactoryMethod/vegetable';
+import { isLeft } from 'fp-ts/Either';
+import { useInventory } from '../../hooks/useInventory';
+import { useLogEvents } from '../../hooks/useLogEvents';
+import { useFactoryRegistry } from '../../hooks/useFactoryRegistry';
+import { CatalogProduceFactory } from '../../module/FactoryMethod/catalog';
+import { produceFactoryRegistry } from '../../module/FactoryMethod/registry';
+import { DEFAULT_ORGANIC_PREMIUM, Produce } from '../../module/FactoryMethod/vegetable';
+import { describeInventoryError } from '../../module/SingleTon/errors';
+import { isValidSku, produceSkuIndex } from '../../module/FactoryMethod/sku';
+import { parseProduce, stringifyProduce } from '../../module/FactoryMethod/serialization';
+import { produceSearchIndex } from '../../module/FactoryMethod/catalogSearch';
+import { clearanceMarkdown, organicPremium, roundToEnding, seasonalMarkup } from '../../module/FactoryMethod/pricing';
 import CreationalPatternView from '../CreationalPatternView/CreationalPatternView';
+import LogEventList from '../LogEventList/LogEventList';
+import ProduceCatalogSearch from './ProduceCatalogSearch';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
@@ -19,20 +32,28 @@ const FactoryMethodDemo: React.FC = () => {
   const [produceName, setProduceName] = useState<string>('');
   const [producePrice, setProducePrice] = useState<number>(2.99);
   const [isOrganic, setIsOrganic] = useState<boolean>(false);
-  const [createdItems, setCreatedItems] = useState<Array<{ description: string }>>([]);
+  const [seasonalPercent, setSeasonalPercent] = useState<number>(0);
+  const [clearancePercent, setClearancePercent] = useState<number>(0);
+  const [roundPrices, setRoundPrices] = useState<boolean>(true);
+  const { registry, registrations } = useFactoryRegistry(produceFactoryRegistry);
+  const factoryLog = useLogEvents('factory-method');
+  const { inventory } = useInventory();
+  const [skuQuery, setSkuQuery] = useState<string>('');
+  const [stockMessage, setStockMessage] = useState<string>('');
+  const [json, setJson] = useState<string>('');
+  const [jsonMessage, setJsonMessage] = useState<string>('');
 
-  const factories = {
-    'leafy-green': new LeafyGreenFactory(),
-    'cruciferous': new CruciferousFactory(),
-    'root': new RootVegetableFactory(),
-    'fruit': new FruitFactory()
-  };
+  const selected = registry.getRegistration(selectedFactory);
+  const factory = selected ? registry.getFactory(selected.key) : null;
+  const catalogFactory = factory instanceof CatalogProduceFactory ? factory : null;
+  const premium = catalogFactory?.catalogCategory.organicPremium ?? DEFAULT_ORGANIC_PREMIUM;
+  const priceEnding = catalogFactory?.catalogCategory.priceEnding ?? 0.99;
+
+  const handlePickCatalogItem = (name: string) => {
+    if (!catalogFactory) return;
 
-  const factoryNames = {
-    'leafy-green': 'Leafy Green Factory',
-    'cruciferous': 'Cruciferous Factory',
-    'root': 'Root Vegetable Factory',
-    'fruit': 'Fruit Factory'
+    setProduceName(name);
+    setProducePrice(catalogFactory.getCatalogPrice(name));
   };
 
   const handleCreateProduce = () => {
@@ -41,15 +62,60 @@ const FactoryMethodDemo: React.FC = () => {
       return;
     }
 
-    const factory = factories[selectedFactory as keyof typeof factories];
-    const produce = factory.getProduce(produceName, producePrice, isOrganic);
+    if (!(producePrice >= 0)) {
+      alert('Please provide a price of zero or more');
+      return;
+    }
+
+    if (!factory) return;
+
+    // Catalog items bring their own origin, season and nutrition on top of the category defaults
+    const attributes = catalogFactory?.getCatalogAttributes(produceName) ?? {};
+    // Rounding goes last so markups and markdowns are rounded too. The strategies price this product
+    // only: the factory is shared through the registry, so its own pricing stays as it is.
+    const strategies = [
+      organicPremium(premium),
+      ...(seasonalPercent > 0 ? [seasonalMarkup(seasonalPercent)] : []),
+      ...(clearancePercent > 0 ? [clearanceMarkdown(clearancePercent)] : []),
+      ...(roundPrices ? [roundToEnding(priceEnding)] : []),
+    ];
+    // The new product shows up in the list below through the search index
+    factory.getProduce(produceName, producePrice, isOrganic, attributes, strategies);
 
-    setCreatedItems(prev => [...prev, { description: produce.getDescription() }]);
     setProduceName('');
     setProducePrice(2.99);
     setIsOrganic(false);
   };
 
+  // Stock is kept under the SKU, so organic and conventional variants stay apart
+  const handleAddToInventory = (produce: Produce) => {
+    const result = inventory.addProduct(produce, 1);
+    setStockMessage(isLeft(result)
+      ? `Failed to stock ${produce.name} - ${describeInventoryError(result.left)}`
+      : `${inventory.getItemLabel(produce.sku)}: ${inventory.getStockCount(produce.sku)} in stock under SKU ${produce.sku}`);
+  };
+
+  const handleExportJson = () => {
+    const created = produceSearchIndex.list();
+    setJson(stringifyProduce(created));
+    setJsonMessage(`Exported ${created.length} product(s)`);
+  };
+
+  // Each product is rebuilt by the factory of its category, so it comes back as the same class.
+  // The restored list replaces the one shown, so restoring an export does not list everything twice.
+  const handleRestoreJson = () => {
+    const result = parseProduce(json);
+    if (isLeft(result)) {
+      setJsonMessage(`Could not restore - ${result.left.map(error => `${error.path || 'JSON'}: ${error.message}`).join('; ')}`);
+      return;
+    }
+    produceSearchIndex.clear();
+    result.right.forEach(produce => produceSearchIndex.add(produce));
+    setJsonMessage(`Restored ${result.right.length} product(s)`);
+  };
+
+  const skuMatch = skuQuery.trim() ? produceSkuIndex.lookup(skuQuery) : undefined;
+
   return (
     <div className="bg-white rounded-lg p-4 shadow-inner">
       <h3 className="text-lg font-semibold mb-4">Interactive Factory Method Demo</h3>
@@ -68,14 +134,36 @@ const FactoryMethodDemo: React.FC = () => {
                 <SelectValue placeholder="Select factory" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="leafy-green">Leafy Green Factory</SelectItem>
-                <SelectItem value="cruciferous">Cruciferous Factory</SelectItem>
-                <SelectItem value="root">Root Vegetable Factory</SelectItem>
-                <SelectItem value="fruit">Fruit Factory</SelectItem>
+                {registrations.map(registration => (
+                  <SelectItem key={registration.key} value={registration.key}>
+                    {registration.displayName}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {selected && (
+              <p className="text-xs text-gray-500 mt-1">{selected.metadata.description}</p>
+            )}
           </div>
 
+          {catalogFactory && catalogFactory.getItems().length > 0 && (
+            <div className="mb-4">
+              <Label className="mb-1">From the Catalog</Label>
+              <div className="flex flex-wrap gap-2">
+                {catalogFactory.getItems().map(item => (
+                  <Button
+                    key={item.name}
+                    size="sm"
+                    variant={item.name === produceName ? 'default' : 'outline'}
+                    onClick={() => handlePickCatalogItem(item.name)}
+                  >
+                    {item.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="mb-4">
             <Label htmlFor="produce-name" className="mb-1">Produce Name</Label>
             <Input
@@ -84,12 +172,12 @@ const FactoryMethodDemo: React.FC = () => {
               value={produceName}
               onChange={(e) => setProduceName(e.target.value)}
               className="w-full"
-              placeholder="e.g., Spinach, Apple, etc."
+              placeholder={`e.g., ${(selected?.metadata.examples ?? ['Spinach', 'Apple']).join(', ')}, etc.`}
             />
           </div>
 
           <div className="mb-4">
-            <Label htmlFor="produce-price" className="mb-1">Price ($)</Label>
+            <Label htmlFor="produce-price" className="mb-1">Base Price (USD)</Label>
             <Input
               id="produce-price"
               type="number"
@@ -105,16 +193,49 @@ const FactoryMethodDemo: React.FC = () => {
             <Checkbox 
               id="organic" 
               checked={isOrganic} 
-              onCheckedChange={() => setIsOrganic(prev => !prev)}
+              onCheckedChange={() => setIsOrganic(!isOrganic)}
             />
-            <Label htmlFor="organic">Organic</Label>
+            <Label htmlFor="organic">Organic (+{premium}%)</Label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="seasonal-markup" className="mb-1">Out-of-Season Markup (%)</Label>
+              <Input
+                id="seasonal-markup"
+                type="number"
+                value={seasonalPercent}
+                onChange={(e) => setSeasonalPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+                min="0"
+              />
+            </div>
+            <div>
+              <Label htmlFor="clearance-markdown" className="mb-1">Clearance Markdown (%)</Label>
+              <Input
+                id="clearance-markdown"
+                type="number"
+                value={clearancePercent}
+                onChange={(e) => setClearancePercent(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                min="0"
+                max="100"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 mb-4">
+            <Checkbox
+              id="round-prices"
+              checked={roundPrices}
+              onCheckedChange={() => setRoundPrices(!roundPrices)}
+            />
+            <Label htmlFor="round-prices">Round to .{String(Math.round(priceEnding * 100)).padStart(2, '0')} endings</Label>
           </div>
 
           <Button
             onClick={handleCreateProduce}
             className="w-full"
             variant="default"
-            disabled={!produceName.trim()}
+            disabled={!produceName.trim() || !selected}
           >
             Create Produce
           </Button>
@@ -123,24 +244,58 @@ const FactoryMethodDemo: React.FC = () => {
         <div className="bg-green-50 p-4 rounded-lg">
           <h4 className="font-medium mb-3 text-green-700">Created Products</h4>
           
-          <ScrollArea className="border border-green-200 rounded-lg h-64 bg-white p-3">
-            {createdItems.length === 0 ? (
-              <p className="text-gray-500 italic">No products yet. Create some using the factory.</p>
-            ) : (
-              <div className="space-y-2">
-                {createdItems.map((item, i) => (
-                  <div key={i} className="p-2 border-b border-green-50">
-                    <p className="text-sm">{item.description}</p>
-                  </div>
-                ))}
-              </div>
+          <ProduceCatalogSearch onStock={handleAddToInventory} />
+
+          {stockMessage && <p className="text-xs text-green-700 mt-2">{stockMessage}</p>}
+
+          <div className="mt-4">
+            <Label htmlFor="produce-json" className="mb-1">Products as JSON</Label>
+            <textarea
+              id="produce-json"
+              value={json}
+              onChange={(e) => setJson(e.target.value)}
+              className="w-full h-24 rounded-md border border-input bg-white px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              placeholder="Export the list, then restore it to rebuild the products"
+            />
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <Button onClick={handleExportJson} variant="secondary">
+                Export
+              </Button>
+              <Button onClick={handleRestoreJson} disabled={!json.trim()} variant="outline">
+                Restore
+              </Button>
+            </div>
+            {jsonMessage && <p className="text-xs text-gray-600 mt-1">{jsonMessage}</p>}
+          </div>
+
+          <div className="mt-4">
+            <Label htmlFor="sku-lookup" className="mb-1">Look up a SKU</Label>
+            <Input
+              id="sku-lookup"
+              type="text"
+              value={skuQuery}
+              onChange={(e) => setSkuQuery(e.target.value)}
+              placeholder="13-digit code"
+              className="w-full font-mono"
+            />
+            {skuQuery.trim() && (
+              <p className="text-xs mt-1 text-gray-600">
+                {skuMatch
+                  ? `${skuMatch.organic ? 'Organic ' : ''}${skuMatch.name} (${skuMatch.category})`
+                  : isValidSku(skuQuery.trim()) ? 'No produce has this SKU' : 'Not a valid SKU - expected 13 digits with a matching check digit'}
+              </p>
             )}
+          </div>
+
+          <h5 className="text-sm font-medium mt-4 mb-2 text-green-700">Factory Log</h5>
+          <ScrollArea className="border border-green-200 rounded-lg h-32 bg-white p-3">
+            <LogEventList events={factoryLog} emptyMessage="The factories have not logged anything yet." />
           </ScrollArea>
 
           <div className="mt-4">
             <CreationalPatternView
               title="Factory Method Pattern"
-              data={`Using ${factoryNames[selectedFactory as keyof typeof factoryNames]} to create specific types of produce with consistent interfaces.`}
+              data={`Using ${selected?.displayName ?? 'a registered factory'} to create specific types of produce with consistent interfaces.`}
               patternType="factory"
             />
           </div>
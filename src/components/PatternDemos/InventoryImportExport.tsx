@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Inventory } from '../../module/SingleTon/inventory';
+import {
+  StockSheetFormat,
+  StockSheetPreview,
+  formatStockSheet,
+  importStockSheet,
+  stockSheetRows,
+} from '../../module/SingleTon/stockSheet';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+interface InventoryImportExportProps {
+  inventory: Inventory;
+  onLog: (message: string) => void;
+}
+
+const placeholders: Record<StockSheetFormat, string> = {
+  csv: 'name,quantity,price,label,unit\nApple,50,1.5,,each\nCarrot,12.5,0.8,,kg',
+  json: '[\n  { "name": "Apple", "quantity": 50, "price": 1.5 },\n  { "name": "Carrot", "quantity": 12.5, "price": 0.8, "unit": "kg" }\n]',
+};
+
+const InventoryImportExport: React.FC<InventoryImportExportProps> = ({ inventory, onLog }) => {
+  const [format, setFormat] = useState<StockSheetFormat>('csv');
+  const [sheet, setSheet] = useState('');
+  const [preview, setPreview] = useState<StockSheetPreview | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setSheet(await file.text());
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    const result = importStockSheet(inventory, sheet, format, { dryRun: true });
+    setPreview(result);
+    onLog(`Preview: ${result.rows.length} valid row(s), ${result.errors.length} error(s)`);
+  };
+
+  const handleImport = () => {
+    const result = importStockSheet(inventory, sheet, format);
+    setPreview(result);
+    if (result.errors.length > 0) {
+      onLog(`Import aborted: ${result.errors.length} invalid row(s), nothing was imported`);
+      return;
+    }
+    onLog(`Imported ${result.imported} row(s) from ${format.toUpperCase()}`);
+    setSheet('');
+  };
+
+  const handleExport = () => {
+    const rows = stockSheetRows(inventory);
+    const text = formatStockSheet(rows, format);
+    setSheet(text);
+    setPreview(null);
+
+    const url = URL.createObjectURL(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `inventory.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    onLog(`Exported ${rows.length} item(s) as ${format.toUpperCase()}`);
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <h4 className="font-medium mb-3 text-blue-700">Import / Export</h4>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <Label htmlFor="sheetFormat" className="mb-1">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as StockSheetFormat)}>
+            <SelectTrigger id="sheetFormat" className="w-full">
+              <SelectValue placeholder="Select format" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="sheetFile" className="mb-1">Load File</Label>
+          <Input
+            id="sheetFile"
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFileChange}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <Label htmlFor="sheet" className="mb-1">Stock Sheet</Label>
+        <textarea
+          id="sheet"
+          value={sheet}
+          onChange={(e) => {
+            setSheet(e.target.value);
+            setPreview(null);
+          }}
+          className="w-full h-32 rounded-md border border-input bg-white px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+          placeholder={placeholders[format]}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Button onClick={handlePreview} disabled={!sheet.trim()} variant="outline">
+          Preview
+        </Button>
+        <Button onClick={handleImport} disabled={!sheet.trim()} variant="default">
+          Import
+        </Button>
+        <Button onClick={handleExport} variant="secondary">
+          Export
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="mt-4 text-sm">
+          {preview.rows.length > 0 && (
+            <ul className="space-y-1 mb-2">
+              {preview.rows.map((row, i) => (
+                <li key={i} className="flex justify-between border-b border-gray-100 pb-1">
+                  <span>{row.name}</span>
+                  <span className="text-gray-600">{row.quantity} @ ${row.price}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {preview.errors.map((error, i) => (
+            <p key={i} className="text-xs text-red-600">
+              {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryImportExport;
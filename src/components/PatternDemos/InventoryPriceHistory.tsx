@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { isLeft } from 'fp-ts/Either';
+import { describeInventoryError } from '../../module/SingleTon/errors';
+import { Inventory } from '../../module/SingleTon/inventory';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+
+interface InventoryPriceHistoryProps {
+  inventory: Inventory;
+  itemName: string;
+}
+
+const InventoryPriceHistory: React.FC<InventoryPriceHistoryProps> = ({ inventory, itemName }) => {
+  const [newPrice, setNewPrice] = useState(0.99);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Date.now();
+  const history = itemName ? inventory.getPriceHistory(itemName) : [];
+  const currentPoint = history.filter(point => point.effectiveFrom <= now).pop();
+
+  const handleChangePrice = () => {
+    if (!itemName) return;
+
+    const date = effectiveFrom ? new Date(effectiveFrom) : undefined;
+    const result = inventory.setPrice(itemName, newPrice, {
+      effectiveFrom: date && !isNaN(date.getTime()) ? date : undefined,
+    });
+    if (isLeft(result)) {
+      setError(describeInventoryError(result.left));
+      return;
+    }
+    setError(null);
+    setEffectiveFrom('');
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <h4 className="font-medium mb-3 text-blue-700">Price History{itemName ? `: ${itemName}` : ''}</h4>
+
+      {!itemName ? (
+        <p className="text-xs text-gray-500 italic">Enter an item name above to see its prices.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="newPrice" className="mb-1">New Price ($)</Label>
+              <Input
+                id="newPrice"
+                type="number"
+                value={newPrice}
+                onChange={(e) => setNewPrice(parseFloat(e.target.value) || 0)}
+                className="w-full"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <Label htmlFor="effectiveFrom" className="mb-1">Effective From</Label>
+              <Input
+                id="effectiveFrom"
+                type="datetime-local"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleChangePrice} variant="secondary" className="w-full mb-4">
+            {effectiveFrom ? 'Schedule Price Change' : 'Change Price Now'}
+          </Button>
+
+          {error && <p className="text-xs text-red-600 mb-4">Price not changed - {error}</p>}
+
+          {history.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No prices recorded for {itemName} yet.</p>
+          ) : (
+            <ul className="text-sm space-y-1">
+              {history.map(point => (
+                <li key={point.effectiveFrom} className="flex justify-between border-b border-gray-100 pb-1">
+                  <span className="text-gray-600">{new Date(point.effectiveFrom).toLocaleString()}</span>
+                  <span>
+                    ${point.price.toFixed(2)}
+                    {point === currentPoint && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">current</span>
+                    )}
+                    {point.effectiveFrom > now && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">scheduled</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InventoryPriceHistory;
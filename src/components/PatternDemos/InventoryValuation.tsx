@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Inventory } from '../../module/SingleTon/inventory';
+import { formatQuantity } from '../../module/SingleTon/units';
+import { VALUATION_METHODS, ValuationMethod } from '../../module/SingleTon/valuation';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+interface InventoryValuationProps {
+  inventory: Inventory;
+}
+
+const methodNames: Record<ValuationMethod, string> = {
+  fifo: 'FIFO',
+  'weighted-average': 'Weighted Average',
+};
+
+const InventoryValuation: React.FC<InventoryValuationProps> = ({ inventory }) => {
+  const [method, setMethod] = useState<ValuationMethod>('fifo');
+
+  const report = inventory.getValuationReport(method);
+  const recentSales = report.sales.slice(-5).reverse();
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg md:col-span-2">
+      <div className="flex items-end justify-between gap-4 mb-3">
+        <h4 className="font-medium text-blue-700">Valuation &amp; Cost of Goods</h4>
+        <div className="w-48">
+          <Label htmlFor="valuationMethod" className="mb-1">Method</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as ValuationMethod)}>
+            <SelectTrigger id="valuationMethod" className="w-full">
+              <SelectValue placeholder="Select method" />
+            </SelectTrigger>
+            <SelectContent>
+              {VALUATION_METHODS.map(name => (
+                <SelectItem key={name} value={name}>{methodNames[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h5 className="text-sm font-medium mb-2 text-blue-700">Stock on Hand</h5>
+          {report.items.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No stock to value.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="font-normal pb-1">Item</th>
+                  <th className="font-normal pb-1 text-right">Quantity</th>
+                  <th className="font-normal pb-1 text-right">Unit Cost</th>
+                  <th className="font-normal pb-1 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.items.map(item => (
+                  <tr key={item.name} className="border-t border-gray-100">
+                    <td className="py-1">{item.name}</td>
+                    <td className="py-1 text-right">{formatQuantity(item.quantity, inventory.getUnitRule(item.name).baseUnit)}</td>
+                    <td className="py-1 text-right">${item.unitCost.toFixed(2)}</td>
+                    <td className="py-1 text-right">${item.value.toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-300 font-medium">
+                  <td className="py-1" colSpan={3}>Total</td>
+                  <td className="py-1 text-right">${report.totalValue.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h5 className="text-sm font-medium mb-2 text-blue-700">Sales</h5>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-3">
+            <dt className="text-gray-600">Revenue</dt>
+            <dd className="text-right">${report.revenue.toFixed(2)}</dd>
+            <dt className="text-gray-600">Cost of goods sold</dt>
+            <dd className="text-right">${report.costOfGoodsSold.toFixed(2)}</dd>
+            <dt className="text-gray-600">Gross margin</dt>
+            <dd className="text-right font-medium">${report.grossMargin.toFixed(2)}</dd>
+            <dt className="text-gray-600">Written off at cost</dt>
+            <dd className="text-right">${report.writeOffCost.toFixed(2)}</dd>
+          </dl>
+          {recentSales.length > 0 && (
+            <ul className="text-xs space-y-1">
+              {recentSales.map(sale => (
+                <li key={sale.entryId} className="flex justify-between border-b border-gray-100 pb-1">
+                  <span>{sale.quantity} {sale.name} for ${sale.revenue.toFixed(2)}</span>
+                  <span className={sale.grossMargin < 0 ? 'text-red-600' : 'text-gray-600'}>
+                    margin ${sale.grossMargin.toFixed(2)} ({sale.marginPercent.toFixed(0)}%)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryValuation;
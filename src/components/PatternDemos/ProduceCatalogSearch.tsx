@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { describeSeason } from '../../module/FactoryMethod/attributes';
+import { PRICE_RANGES, SEARCH_SORTS, SearchSort, describePriceRange } from '../../module/FactoryMethod/catalogSearch';
+import { Produce } from '../../module/FactoryMethod/vegetable';
+import { produceFactoryRegistry } from '../../module/FactoryMethod/registry';
+import { formatMoney } from '../../lib/i18n';
+import { useFactoryRegistry } from '../../hooks/useFactoryRegistry';
+import { useProduceSearch } from '../../hooks/useProduceSearch';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { ScrollArea } from '../ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+interface ProduceCatalogSearchProps {
+  onStock: (produce: Produce) => void;
+}
+
+const sortNames: Record<SearchSort, string> = {
+  relevance: 'Best match',
+  name: 'Name',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  newest: 'Newest',
+};
+
+const toggle = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+
+// Search box, facet chips and sorting over every product the factories have created
+const ProduceCatalogSearch: React.FC<ProduceCatalogSearchProps> = ({ onStock }) => {
+  const [text, setText] = useState('');
+  const [categories, setCategories] = useState<string[]>([]);
+  const [organic, setOrganic] = useState<boolean | undefined>(undefined);
+  const [priceRanges, setPriceRanges] = useState<string[]>([]);
+  const [sort, setSort] = useState<SearchSort | 'auto'>('auto');
+  const { registry } = useFactoryRegistry(produceFactoryRegistry);
+  const { result } = useProduceSearch({
+    text,
+    categories,
+    organic,
+    priceRanges,
+    sort: sort === 'auto' ? undefined : sort,
+  });
+
+  const categoryName = (key: string) =>
+    registry.getRegistration(key)?.displayName.replace(/ Factory$/, '') ?? key;
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full border text-xs ${active ? 'bg-green-600 border-green-600 text-white' : 'bg-white border-green-200 text-green-800 hover:bg-green-100'}`;
+  const filtered = text.trim() !== '' || categories.length > 0 || organic !== undefined || priceRanges.length > 0;
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-2">
+        <Input
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search name or description"
+          aria-label="Search created products"
+          className="flex-1 bg-white"
+        />
+        <Select value={sort} onValueChange={(value) => setSort(value as SearchSort | 'auto')}>
+          <SelectTrigger className="w-40 bg-white" aria-label="Sort by">
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Default order</SelectItem>
+            {SEARCH_SORTS.map(name => (
+              <SelectItem key={name} value={name}>{sortNames[name]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-1">
+        {result.facets.categories.map(({ value, count }) => (
+          <button key={value} type="button" className={chipClass(categories.includes(value))} onClick={() => setCategories(toggle(categories, value))}>
+            {categoryName(value)} ({count})
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-1">
+        {result.facets.organic.map(({ value, count }) => (
+          <button key={String(value)} type="button" className={chipClass(organic === value)} onClick={() => setOrganic(organic === value ? undefined : value)}>
+            {value ? 'Organic' : 'Conventional'} ({count})
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {PRICE_RANGES.map(range => {
+          const count = result.facets.priceRanges.find(facet => facet.value === range.key)?.count ?? 0;
+          return (
+            <button key={range.key} type="button" className={chipClass(priceRanges.includes(range.key))} onClick={() => setPriceRanges(toggle(priceRanges, range.key))}>
+              {describePriceRange(range)} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center text-xs text-gray-500 mb-1">
+        <span>{result.hits.length} of {result.total} product(s)</span>
+        {filtered && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setText('');
+              setCategories([]);
+              setOrganic(undefined);
+              setPriceRanges([]);
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="border border-green-200 rounded-lg h-64 bg-white p-3">
+        {result.total === 0 ? (
+          <p className="text-gray-500 italic">No products yet. Create some using the factory.</p>
+        ) : result.hits.length === 0 ? (
+          <p className="text-gray-500 italic">No products match the search.</p>
+        ) : (
+          <div className="space-y-2">
+            {result.hits.map(item => (
+              <div key={item.id} className="p-2 border-b border-green-50">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm">{item.description}</p>
+                  <Button size="sm" variant="outline" onClick={() => onStock(item.produce)}>
+                    Stock
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 font-mono">SKU {item.produce.sku}</p>
+                <p className="text-xs mt-1">
+                  <span className="text-gray-500">Base {formatMoney(item.produce.pricing.basePrice)}</span>
+                  <span className="mx-1 text-gray-400">&rarr;</span>
+                  <span className="font-medium text-green-700">Final {formatMoney(item.produce.pricing.finalPrice)}</span>
+                  {item.produce.pricing.adjustments.length > 0 && (
+                    <span className="text-gray-500"> ({item.produce.pricing.adjustments.map(adjustment => adjustment.label).join(', ')})</span>
+                  )}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1 text-xs">
+                  {item.produce.attributes.highlights.map(highlight => (
+                    <span key={highlight} className="px-2 py-0.5 rounded-full bg-green-100 text-green-800">{highlight}</span>
+                  ))}
+                  {item.produce.attributes.inSeasonMonths.length > 0 && (
+                    <span className={`px-2 py-0.5 rounded-full ${item.produce.isInSeason() ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'}`}>
+                      {item.produce.isInSeason() ? 'In season' : 'Out of season'} ({describeSeason(item.produce.attributes.inSeasonMonths)})
+                    </span>
+                  )}
+                  {item.produce.attributes.allergens.map(allergen => (
+                    <span key={allergen} className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">Contains {allergen}</span>
+                  ))}
+                </div>
+                {item.produce.attributes.nutrition && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Per 100 g: {item.produce.attributes.nutrition.energyKcal} kcal, {item.produce.attributes.nutrition.fiberG} g fiber, {item.produce.attributes.nutrition.proteinG} g protein
+                    {item.produce.attributes.countryOfOrigin && ` · Origin: ${item.produce.attributes.countryOfOrigin}`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ProduceCatalogSearch;
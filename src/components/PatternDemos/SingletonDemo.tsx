@@ -1,62 +1,312 @@
-import React, { useState } from 'react';
-import { Inventory } from '../../module/SingleTon/inventory';
+import React, { useEffect, useState } from 'react';
+import { isLeft } from 'fp-ts/Either';
+import { describeInventoryError } from '../../module/SingleTon/errors';
+import { InventoryEvent } from '../../module/SingleTon/events';
+import { tenantScopedName } from '../../module/SingleTon/inventory';
+import { LedgerEntry } from '../../module/SingleTon/ledger';
+import { DEFAULT_LOCATION } from '../../module/SingleTon/lots';
+import { LocalStorageInventoryStorage } from '../../module/SingleTon/storage';
+import { syncAcrossTabs } from '../../module/SingleTon/sync';
+import { UNITS, Unit, formatQuantity } from '../../module/SingleTon/units';
+import { useInventory } from '../../hooks/useInventory';
+import { useLogEvents } from '../../hooks/useLogEvents';
 import CreationalPatternView from '../CreationalPatternView/CreationalPatternView';
+import LogEventList from '../LogEventList/LogEventList';
+import InventoryImportExport from './InventoryImportExport';
+import InventoryPriceHistory from './InventoryPriceHistory';
+import InventoryValuation from './InventoryValuation';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { ScrollArea } from '../ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+const describeEvent = (event: InventoryEvent): string => {
+  switch (event.type) {
+    case 'item-added':
+      return `Added ${event.quantity} ${event.name}(s) at $${event.price} each to ${event.location}`;
+    case 'item-sold':
+      return `Sold ${event.quantity} ${event.name}(s)${event.location ? ` from ${event.location}` : ''}, ${event.remaining} left`;
+    case 'sale-rejected':
+      return `Failed to sell ${event.quantity} ${event.name}(s) - ${describeInventoryError(event.reason)}`;
+    case 'item-transferred':
+      return `Moved ${event.quantity} ${event.name}(s) from ${event.from} to ${event.to}`;
+    case 'transfer-rejected':
+      return `Failed to move ${event.quantity} ${event.name}(s) from ${event.from} to ${event.to} - ${describeInventoryError(event.reason)}`;
+    case 'location-added':
+      return `Added location ${event.location}`;
+    case 'reservation-created':
+      return `Reserved ${event.reservation.quantity} ${event.reservation.name}(s) until ${new Date(event.reservation.expiresAt).toLocaleTimeString()}`;
+    case 'reservation-confirmed':
+      return `Confirmed reservation of ${event.reservation.quantity} ${event.reservation.name}(s)`;
+    case 'reservation-released':
+      return `${event.reason === 'expired' ? 'Hold expired' : 'Released hold'} on ${event.reservation.quantity} ${event.reservation.name}(s)`;
+    case 'reservation-rejected':
+      return `Failed to reserve ${event.quantity} ${event.name}(s) - ${describeInventoryError(event.reason)}`;
+    case 'price-changed':
+      return `Price of ${event.name} changed from $${event.previousPrice} to $${event.price}`;
+    case 'price-scheduled':
+      return `Price of ${event.name} will change to $${event.price} on ${new Date(event.effectiveFrom).toLocaleString()}`;
+    case 'stock-written-off':
+      return `Wrote off ${event.quantity} expired ${event.name}(s)`;
+    case 'reorder-policy-changed':
+      return event.policy
+        ? `Reorder ${event.policy.reorderQuantity} ${event.name}(s) when stock reaches ${event.policy.reorderPoint}`
+        : `Stopped watching stock of ${event.name}`;
+    case 'unit-rule-changed':
+      return `${event.name} is now counted in ${event.rule.baseUnit}${
+        Object.entries(event.rule.perUnit).map(([unit, factor]) => `, 1 ${unit} = ${formatQuantity(factor, event.rule.baseUnit)}`).join('')
+      }`;
+    case 'label-changed':
+      return event.label ? `${event.name} is now shown as ${event.label}` : `Removed the label of ${event.name}`;
+    case 'low-stock':
+      return `⚠ Low stock: ${event.name} is down to ${event.available} (reorder point ${event.reorderPoint})`;
+    case 'operations-undone':
+      return `Undid ${event.entries.length} operation(s): ${event.entries.map(describeEntry).join('; ')}`;
+    case 'ledger-replayed':
+      return `Rebuilt inventory by replaying ${event.entryCount} ledger entries`;
+    case 'synced':
+      return `🔄 Synced from another tab: ${event.entries.map(describeEntry).join('; ')}${
+        event.conflicts.length > 0
+          ? ` - conflict: ${event.conflicts.map(describeEntry).join('; ')} could not be covered in full`
+          : ''
+      }`;
+    case 'restored':
+      return `Restored ${event.itemCount} item type(s) from browser storage`;
+  }
+};
+
+const describeEntry = (entry: LedgerEntry): string => {
+  switch (entry.type) {
+    case 'receive':
+      return `received ${entry.quantity} ${entry.name} at ${entry.lot.location}`;
+    case 'sell':
+    case 'confirm-reservation':
+      return `sold ${entry.quantity} ${entry.name} at $${entry.price}`;
+    case 'transfer':
+      return `moved ${entry.quantity} ${entry.name} ${entry.from} → ${entry.to}`;
+    case 'write-off':
+      return `wrote off ${entry.quantity} ${entry.name}`;
+    case 'set-price':
+      return `set price of ${entry.name} to $${entry.price}`;
+    case 'add-location':
+      return `added location ${entry.location}`;
+    case 'reserve':
+      return `reserved ${entry.quantity} ${entry.name}`;
+    case 'release-reservation':
+      return `${entry.reason} hold on ${entry.quantity} ${entry.name}`;
+    case 'set-reorder-policy':
+      return entry.policy
+        ? `set reorder point of ${entry.name} to ${entry.policy.reorderPoint}`
+        : `cleared reorder point of ${entry.name}`;
+    case 'set-unit-rule':
+      return `counted ${entry.name} in ${entry.rule.baseUnit}`;
+    case 'set-label':
+      return entry.label ? `labelled ${entry.name} ${entry.label}` : `removed the label of ${entry.name}`;
+    case 'undo':
+      return `undid ${entry.undoneIds.length} operation(s)`;
+  }
+};
 
 const SingletonDemo: React.FC = () => {
+  const { inventory, items } = useInventory();
   const [logs, setLogs] = useState<string[]>([]);
+  const diagnostics = useLogEvents('inventory');
   const [itemName, setItemName] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [price, setPrice] = useState(0.99);
+  const [shelfLifeDays, setShelfLifeDays] = useState(0);
+  const [unitCost, setUnitCost] = useState(0);
   const [sellQuantity, setSellQuantity] = useState(1);
+  const [unit, setUnit] = useState<Unit>('each');
+  const [baseUnit, setBaseUnit] = useState<Unit>('each');
+  const [caseSize, setCaseSize] = useState(12);
+  const [location, setLocation] = useState(DEFAULT_LOCATION);
+  const [newLocation, setNewLocation] = useState('');
+  const [transferTo, setTransferTo] = useState(DEFAULT_LOCATION);
+  const [transferQuantity, setTransferQuantity] = useState(1);
+  const [holdMinutes, setHoldMinutes] = useState(15);
+  const [actor, setActor] = useState(() => inventory.getActor());
+  const [undoCount, setUndoCount] = useState(1);
+  const [reorderPoint, setReorderPoint] = useState(5);
+  const [reorderQuantity, setReorderQuantity] = useState(20);
+  const locations = inventory.getLocations();
+  const reservations = inventory.getReservations();
+  const lowStock = inventory.getLowStockReport();
 
   const appendLog = (message: string) => {
     setLogs(prev => [...prev, message]);
   };
 
+  useEffect(() => {
+    // Every change made through the singleton shows up in the log, whoever made it
+    return inventory.subscribe(event => {
+      setLogs(prev => [...prev, describeEvent(event)]);
+    });
+  }, [inventory]);
+
+  useEffect(() => {
+    // Restore the stock saved by a previous visit, then keep in step with other open tabs.
+    // Each tenant is stored under its own key.
+    let active = true;
+    let stopSync: (() => void) | null = null;
+    const storageKey = tenantScopedName('creational-patterns:inventory', inventory.getTenant());
+    inventory.attachStorage(new LocalStorageInventoryStorage(storageKey))
+      .catch(() => {
+        if (!active) return;
+        setLogs(prev => [...prev, 'Browser storage unavailable - inventory is kept in memory only']);
+      })
+      .then(() => {
+        if (active) stopSync = syncAcrossTabs(inventory);
+      });
+    return () => {
+      active = false;
+      stopSync?.();
+    };
+  }, [inventory]);
+
   const handleAddItem = () => {
     if (!itemName) return;
     
-    const inventory = Inventory.getInstance();
-    inventory.addItem(itemName, quantity, price);
+    const expiresAt = shelfLifeDays > 0
+      ? new Date(Date.now() + shelfLifeDays * 24 * 60 * 60 * 1000)
+      : null;
+    const result = inventory.addItem(itemName, quantity, price, { location, expiresAt, unitCost, unit });
+    if (isLeft(result)) {
+      appendLog(`Failed to add ${itemName} - ${describeInventoryError(result.left)}`);
+      return;
+    }
     
-    appendLog(`Added ${quantity} ${itemName}(s) at $${price} each to inventory`);
     setItemName('');
     setQuantity(1);
     setPrice(0.99);
+    setShelfLifeDays(0);
+    setUnitCost(0);
   };
 
   const handleSellItem = () => {
     if (!itemName) return;
     
-    const inventory = Inventory.getInstance();
-    const success = inventory.sellItem(itemName, sellQuantity);
-    
-    if (success) {
-      appendLog(`Sold ${sellQuantity} ${itemName}(s)`);
-    } else {
-      appendLog(`Failed to sell ${sellQuantity} ${itemName}(s) - insufficient stock`);
-    }
+    inventory.sellItem(itemName, sellQuantity, { location, unit });
     setSellQuantity(1);
   };
 
+  const handleTransferItem = () => {
+    if (!itemName) return;
+
+    inventory.transferItem(itemName, transferQuantity, location, transferTo);
+    setTransferQuantity(1);
+  };
+
+  const handleReserveItem = () => {
+    if (!itemName) return;
+
+    inventory.reserveItem(itemName, sellQuantity, { location, unit, ttlMs: holdMinutes * 60 * 1000 });
+    setSellQuantity(1);
+  };
+
+  const handleSetUnitRule = () => {
+    if (!itemName) return;
+
+    const { perUnit } = inventory.getUnitRule(itemName);
+    const result = inventory.setUnitRule(itemName, { baseUnit, perUnit: { ...perUnit, case: caseSize } });
+    if (isLeft(result)) {
+      appendLog(`Failed to set units of ${itemName} - ${describeInventoryError(result.left)}`);
+      return;
+    }
+    setUnit(baseUnit);
+  };
+
+  const handleSetReorderPolicy = () => {
+    if (!itemName) return;
+
+    const result = inventory.setReorderPolicy(itemName, { reorderPoint, reorderQuantity });
+    if (isLeft(result)) {
+      appendLog(`Failed to set reorder point of ${itemName} - ${describeInventoryError(result.left)}`);
+    }
+  };
+
+  const handleConfirmReservation = (id: string) => {
+    const result = inventory.confirmReservation(id);
+    if (isLeft(result)) {
+      appendLog(`Failed to confirm hold - ${describeInventoryError(result.left)}`);
+    }
+  };
+
+  const handleReleaseReservation = (id: string) => {
+    const result = inventory.releaseReservation(id);
+    if (isLeft(result)) {
+      appendLog(`Failed to release hold - ${describeInventoryError(result.left)}`);
+    }
+  };
+
+  const handleShowPurchaseOrder = () => {
+    const lines = inventory.getPurchaseOrderSuggestions();
+    if (lines.length === 0) {
+      appendLog('Nothing needs reordering');
+      return;
+    }
+
+    const total = lines.reduce((sum, line) => sum + line.estimatedCost, 0);
+    appendLog(`Suggested purchase order (est. $${total.toFixed(2)}):`);
+    lines.forEach(line => {
+      appendLog(`- ${line.quantity} ${line.name}(s) at $${line.unitCost.toFixed(2)} = $${line.estimatedCost.toFixed(2)}`);
+    });
+  };
+
+  const handleActorChange = (value: string) => {
+    setActor(value);
+    inventory.setActor(value.trim() || 'system');
+  };
+
+  const handleUndo = () => {
+    if (inventory.undo(undoCount).length === 0) {
+      appendLog('Nothing to undo');
+    }
+    setUndoCount(1);
+  };
+
+  const handleShowAuditTrail = () => {
+    const entries = inventory.getLedger();
+    if (entries.length === 0) {
+      appendLog('Ledger is empty');
+      return;
+    }
+
+    appendLog(`Audit trail (${entries.length} entries):`);
+    entries.forEach(entry => {
+      const undone = inventory.isUndone(entry.id) ? ' (undone)' : '';
+      appendLog(`- ${new Date(entry.timestamp).toLocaleTimeString()} ${entry.actor}: ${describeEntry(entry)}${undone}`);
+    });
+  };
+
+  const handleAddLocation = () => {
+    const name = newLocation.trim();
+    if (!name) return;
+
+    inventory.addLocation(name);
+    setLocation(name);
+    setNewLocation('');
+  };
+
   const handleCheckStock = () => {
     if (!itemName) return;
     
-    const inventory = Inventory.getInstance();
-    const count = inventory.getStockCount(itemName);
+    const count = inventory.getStockCount(itemName, location);
+    const total = inventory.getStockCount(itemName);
     const itemPrice = inventory.getPrice(itemName);
     
-    appendLog(`Stock check: ${count} ${itemName}(s) available at $${itemPrice} each`);
+    appendLog(`Stock check: ${count} ${itemName}(s) at ${location} (${total} across all locations) at $${itemPrice} each`);
   };
 
   const handleShowAllItems = () => {
-    const inventory = Inventory.getInstance();
-    const items = inventory.getAllItems();
-    
     if (items.length === 0) {
       appendLog('Inventory is empty');
       return;
@@ -65,10 +315,29 @@ const SingletonDemo: React.FC = () => {
     appendLog('Current inventory:');
     items.forEach(([name, count]) => {
       const itemPrice = inventory.getPrice(name);
-      appendLog(`- ${name}: ${count} in stock at $${itemPrice} each`);
+      appendLog(`- ${inventory.getItemLabel(name)}: ${count} in stock at $${itemPrice} each`);
     });
   };
 
+  const handleShowExpiring = () => {
+    const expiring = inventory.getLotsExpiringWithin(3);
+    if (expiring.length === 0) {
+      appendLog('No lots expire within 3 days');
+      return;
+    }
+
+    appendLog('Lots expiring within 3 days:');
+    expiring.forEach(({ name, lot }) => {
+      appendLog(`- ${lot.quantity} ${name}(s) expire ${new Date(lot.expiresAt!).toLocaleDateString()}`);
+    });
+  };
+
+  const handleWriteOffExpired = () => {
+    if (inventory.writeOffExpired().length === 0) {
+      appendLog('No expired stock to write off');
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg p-4 shadow-inner">
       <h3 className="text-lg font-semibold mb-4">Interactive Singleton Demo</h3>
@@ -76,6 +345,18 @@ const SingletonDemo: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-gray-50 p-4 rounded-lg">
           <h4 className="font-medium mb-3 text-blue-700">Inventory Management</h4>
+
+          <div className="mb-4">
+            <Label htmlFor="actor" className="mb-1">Operator</Label>
+            <Input
+              id="actor"
+              type="text"
+              value={actor}
+              onChange={(e) => handleActorChange(e.target.value)}
+              className="w-full"
+              placeholder="e.g., cashier-1"
+            />
+          </div>
           
           <div className="mb-4">
             <Label htmlFor="itemName" className="mb-1">Item Name</Label>
@@ -88,6 +369,42 @@ const SingletonDemo: React.FC = () => {
               placeholder="e.g., Apple"
             />
           </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="location" className="mb-1">Location</Label>
+              <Select value={location} onValueChange={setLocation}>
+                <SelectTrigger id="location" className="w-full">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="newLocation" className="mb-1">New Location</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="newLocation"
+                  type="text"
+                  value={newLocation}
+                  onChange={(e) => setNewLocation(e.target.value)}
+                  className="flex-grow"
+                  placeholder="e.g., warehouse"
+                />
+                <Button
+                  onClick={handleAddLocation}
+                  disabled={!newLocation.trim()}
+                  variant="outline"
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
           
           <div className="grid grid-cols-2 gap-4 mb-4">
             <div>
@@ -96,9 +413,10 @@ const SingletonDemo: React.FC = () => {
                 id="quantity" 
                 type="number" 
                 value={quantity}
-                onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
                 className="w-full"
-                min="1"
+                min="0"
+                step="any"
               />
             </div>
             <div>
@@ -115,6 +433,75 @@ const SingletonDemo: React.FC = () => {
             </div>
           </div>
           
+          <div className="mb-4">
+            <Label className="mb-1">Quantities In / Base Unit / Case Size</Label>
+            <div className="flex gap-2">
+              <Select value={unit} onValueChange={(value) => setUnit(value as Unit)}>
+                <SelectTrigger className="w-24" aria-label="Unit of quantities">
+                  <SelectValue placeholder="Unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNITS.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={baseUnit} onValueChange={(value) => setBaseUnit(value as Unit)}>
+                <SelectTrigger className="w-24" aria-label="Base unit">
+                  <SelectValue placeholder="Base unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNITS.filter(name => name !== 'case').map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                value={caseSize}
+                onChange={(e) => setCaseSize(parseFloat(e.target.value) || 0)}
+                className="w-20"
+                min="0"
+                step="any"
+                aria-label="Base units per case"
+              />
+              <Button
+                onClick={handleSetUnitRule}
+                disabled={!itemName || caseSize <= 0}
+                variant="secondary"
+                className="flex-grow"
+              >
+                Set Units
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label htmlFor="shelfLife" className="mb-1">Shelf Life (days)</Label>
+              <Input
+                id="shelfLife"
+                type="number"
+                value={shelfLifeDays}
+                onChange={(e) => setShelfLifeDays(parseInt(e.target.value) || 0)}
+                className="w-full"
+                min="0"
+              />
+            </div>
+            <div>
+              <Label htmlFor="unitCost" className="mb-1">Unit Cost ($)</Label>
+              <Input
+                id="unitCost"
+                type="number"
+                value={unitCost}
+                onChange={(e) => setUnitCost(parseFloat(e.target.value) || 0)}
+                className="w-full"
+                min="0"
+                step="0.01"
+              />
+            </div>
+          </div>
+          
           <Button 
             onClick={handleAddItem}
             disabled={!itemName}
@@ -131,9 +518,10 @@ const SingletonDemo: React.FC = () => {
                 id="sellQuantity"
                 type="number" 
                 value={sellQuantity}
-                onChange={(e) => setSellQuantity(parseInt(e.target.value) || 0)}
+                onChange={(e) => setSellQuantity(parseFloat(e.target.value) || 0)}
                 className="flex-grow"
-                min="1"
+                min="0"
+                step="any"
               />
               <Button 
                 onClick={handleSellItem}
@@ -144,7 +532,91 @@ const SingletonDemo: React.FC = () => {
               </Button>
             </div>
           </div>
+
+          <div className="mb-4">
+            <Label htmlFor="holdMinutes" className="mb-1">Hold for (minutes)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="holdMinutes"
+                type="number"
+                value={holdMinutes}
+                onChange={(e) => setHoldMinutes(parseInt(e.target.value) || 0)}
+                className="flex-grow"
+                min="1"
+              />
+              <Button
+                onClick={handleReserveItem}
+                disabled={!itemName || holdMinutes <= 0}
+                variant="secondary"
+              >
+                Reserve
+              </Button>
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <Label htmlFor="transferQuantity" className="mb-1">Transfer to Location</Label>
+            <div className="flex gap-2">
+              <Input
+                id="transferQuantity"
+                type="number"
+                value={transferQuantity}
+                onChange={(e) => setTransferQuantity(parseInt(e.target.value) || 0)}
+                className="w-20"
+                min="1"
+              />
+              <Select value={transferTo} onValueChange={setTransferTo}>
+                <SelectTrigger className="flex-grow">
+                  <SelectValue placeholder="Destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleTransferItem}
+                disabled={!itemName || transferTo === location}
+                variant="secondary"
+              >
+                Transfer
+              </Button>
+            </div>
+          </div>
           
+          <div className="mb-4">
+            <Label className="mb-1">Reorder Point / Reorder Quantity</Label>
+            <div className="flex gap-2">
+              <Input
+                id="reorderPoint"
+                type="number"
+                value={reorderPoint}
+                onChange={(e) => setReorderPoint(parseInt(e.target.value) || 0)}
+                className="w-20"
+                min="0"
+                aria-label="Reorder point"
+              />
+              <Input
+                id="reorderQuantity"
+                type="number"
+                value={reorderQuantity}
+                onChange={(e) => setReorderQuantity(parseInt(e.target.value) || 0)}
+                className="w-20"
+                min="1"
+                aria-label="Reorder quantity"
+              />
+              <Button
+                onClick={handleSetReorderPolicy}
+                disabled={!itemName || reorderQuantity <= 0}
+                variant="secondary"
+                className="flex-grow"
+              >
+                Set Reorder Point
+              </Button>
+            </div>
+          </div>
+
           <div className="grid grid-cols-2 gap-2">
             <Button 
               onClick={handleCheckStock}
@@ -160,6 +632,100 @@ const SingletonDemo: React.FC = () => {
               Show All Items
             </Button>
           </div>
+
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <Button 
+              onClick={handleShowExpiring}
+              variant="outline"
+            >
+              Expiring Soon
+            </Button>
+            <Button 
+              onClick={handleWriteOffExpired}
+              variant="outline"
+            >
+              Write Off Expired
+            </Button>
+          </div>
+
+          <Button
+            onClick={handleShowPurchaseOrder}
+            variant="outline"
+            className="w-full mt-2"
+          >
+            Suggest Purchase Order
+          </Button>
+
+          {lowStock.length > 0 && (
+            <Alert className="mt-4 border-amber-300 bg-amber-50 text-amber-900">
+              <AlertTitle>Low stock</AlertTitle>
+              <AlertDescription className="text-amber-800">
+                {lowStock.map(item => (
+                  <p key={item.name}>
+                    {item.name}: {item.available} left (reorder point {item.reorderPoint}, reorder {item.reorderQuantity})
+                  </p>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="mt-4">
+            <h5 className="text-sm font-medium mb-2 text-blue-700">Live Stock</h5>
+            {items.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No items in stock.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {items.map(([name, count]) => (
+                  <li key={name} className="border-b border-gray-100 pb-1">
+                    <div className="flex justify-between">
+                      <span>
+                        {inventory.getItemLabel(name)}
+                        {inventory.getItemLabel(name) !== name && <span className="text-xs text-gray-500 font-mono"> {name}</span>}
+                      </span>
+                      <span className="text-gray-600">
+                        {formatQuantity(count, inventory.getUnitRule(name).baseUnit)} @ ${inventory.getPrice(name)}
+                      </span>
+                    </div>
+                    {inventory.getReservedCount(name) > 0 && (
+                      <p className="text-xs text-amber-700">
+                        {inventory.getAvailableCount(name)} available, {inventory.getReservedCount(name)} on hold
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {inventory.getStockByLocation(name)
+                        .filter(([, quantity]) => quantity > 0)
+                        .map(([place, quantity]) => `${place}: ${quantity}`)
+                        .join(', ')}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {reservations.length > 0 && (
+            <div className="mt-4">
+              <h5 className="text-sm font-medium mb-2 text-blue-700">Active Holds</h5>
+              <ul className="text-sm space-y-1">
+                {reservations.map(reservation => (
+                  <li key={reservation.id} className="flex items-center justify-between gap-2 border-b border-gray-100 pb-1">
+                    <span>
+                      {reservation.quantity} {reservation.name}
+                      <span className="text-xs text-gray-500"> until {new Date(reservation.expiresAt).toLocaleTimeString()}</span>
+                    </span>
+                    <span className="flex gap-1">
+                      <Button size="sm" variant="outline" onClick={() => handleConfirmReservation(reservation.id)}>
+                        Confirm
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleReleaseReservation(reservation.id)}>
+                        Release
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
         
         <div className="bg-blue-50 p-4 rounded-lg">
@@ -169,22 +735,59 @@ const SingletonDemo: React.FC = () => {
               <p className="text-gray-500 italic">No events yet. Try adding or selling items.</p>
             ) : (
               logs.map((log, i) => (
-                <p key={i} className="text-sm mb-1 pb-1 border-b border-blue-50">
+                <p key={i} className={`text-sm mb-1 pb-1 border-b border-blue-50 ${log.startsWith('⚠') ? 'text-amber-700 font-medium' : ''}`}>
                   {log}
                 </p>
               ))
             )}
           </ScrollArea>
+
+          <h5 className="text-sm font-medium mt-4 mb-2 text-blue-700">Diagnostics</h5>
+          <ScrollArea className="border border-blue-200 rounded-lg h-32 bg-white p-3">
+            <LogEventList events={diagnostics} emptyMessage="The inventory has not logged anything yet." />
+          </ScrollArea>
+
+          <div className="flex gap-2 mt-4">
+            <Input
+              id="undoCount"
+              type="number"
+              value={undoCount}
+              onChange={(e) => setUndoCount(parseInt(e.target.value) || 0)}
+              className="w-20"
+              min="1"
+              aria-label="Operations to undo"
+            />
+            <Button
+              onClick={handleUndo}
+              disabled={undoCount <= 0}
+              variant="outline"
+            >
+              Undo Last
+            </Button>
+            <Button
+              onClick={handleShowAuditTrail}
+              variant="outline"
+              className="flex-grow"
+            >
+              Show Audit Trail
+            </Button>
+          </div>
           
           <div className="mt-4">
             <CreationalPatternView 
               title="Singleton Pattern Note" 
-              data="This demo uses a single Inventory instance across all operations. Try refreshing the page - your inventory will be reset because we're using an in-memory singleton." 
+              data="This demo uses a single Inventory instance across all operations. Try refreshing the page - your inventory is written through to localStorage and restored when the singleton is configured again. Open a second tab: changes made there are synced into this one." 
               patternType="singleton" 
             />
           </div>
         </div>
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        <InventoryImportExport inventory={inventory} onLog={appendLog} />
+        <InventoryPriceHistory inventory={inventory} itemName={itemName.trim()} />
+        <InventoryValuation inventory={inventory} />
+      </div>
     </div>
   );
 };
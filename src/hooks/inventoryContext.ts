@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { Inventory } from '../module/SingleTon/inventory';
+
+// The inventory components below an InventoryProvider work with; null means the default singleton
+export const InventoryContext = createContext<Inventory | null>(null);
@@ -0,0 +1,10 @@
+import { FactoryRegistry } from '../lib/registry';
+import { useStore } from './useStore';
+
+// The factories registered with a registry; re-renders when one is registered or removed
+export function useFactoryRegistry<T, M>(registry: FactoryRegistry<T, M>) {
+  // list() returns the same array until the registrations change
+  const registrations = useStore(registry, () => registry.list());
+
+  return { registry, registrations };
+}
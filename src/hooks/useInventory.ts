@@ -0,0 +1,18 @@
+import { useContext } from 'react';
+import { Inventory } from '../module/SingleTon/inventory';
+import { InventoryContext } from './inventoryContext';
+import { useStore } from './useStore';
+
+// Re-renders the calling component whenever the inventory changes.
+// Without an argument it uses the nearest InventoryProvider, falling back to the default singleton.
+export function useInventory(instance?: Inventory) {
+  const provided = useContext(InventoryContext);
+  const inventory = instance ?? provided ?? Inventory.getInstance();
+
+  const version = useStore(inventory, () => inventory.getVersion());
+
+  // getAllItems() only builds a new list after the stock has changed
+  const items = inventory.getAllItems();
+
+  return { inventory, items, version };
+}
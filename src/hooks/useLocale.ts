@@ -0,0 +1,8 @@
+import { getLocale, localeStore, setLocale } from '../lib/i18n';
+import { useStore } from './useStore';
+
+// The current locale; components calling this re-render when it is switched
+export function useLocale() {
+  const locale = useStore(localeStore, getLocale);
+  return { locale, setLocale };
+}
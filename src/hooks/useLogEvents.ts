@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { LogEvent, MemoryLogSink } from '../lib/logger';
+import { appLogSink } from '../lib/telemetry';
+import { useStore } from './useStore';
+
+// Events held by an in-memory sink, optionally from one source only; re-renders as events arrive
+export function useLogEvents(source?: string, sink: MemoryLogSink = appLogSink): LogEvent[] {
+  const events = useStore(sink, () => sink.getEvents());
+
+  return useMemo(
+    () => source === undefined ? events : events.filter(event => event.source === source),
+    [events, source]
+  );
+}
@@ -0,0 +1,10 @@
+import { ProduceSearchIndex, SearchQuery, produceSearchIndex } from '../module/FactoryMethod/catalogSearch';
+import { useStore } from './useStore';
+
+// Runs the query against the index again whenever a product is indexed or the query changes
+export function useProduceSearch(query: SearchQuery, index: ProduceSearchIndex = produceSearchIndex) {
+  // search() returns the same result for an equal query until the index changes
+  const result = useStore(index, () => index.search(query));
+
+  return { index, result };
+}
@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Subscribable } from '../lib/store';
+
+// What getSnapshot returns, read again whenever the store notifies. getSnapshot must return the
+// same value until the store changes, e.g. a cached list rather than a fresh copy.
+export function useStore<S>(store: Subscribable, getSnapshot: () => S): S {
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => store.subscribe(onStoreChange),
+    [store]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
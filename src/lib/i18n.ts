@@ -0,0 +1,136 @@
+import { MessageKey, messages } from "./messages";
+import { ObservableStore } from "./store";
+
+// Locale for product text and prices. Prices are kept in US dollars; they are shown in the
+// locale's currency only once an exchange rate for it has been set, and in dollars until then.
+
+export type Locale = keyof typeof messages;
+
+export interface LocaleSettings {
+  label: string;
+  currency: string;
+  fractionDigits: number;
+}
+
+export const LOCALES: Record<Locale, LocaleSettings> = {
+  "en-US": { label: "English", currency: "USD", fractionDigits: 2 },
+  "id-ID": { label: "Bahasa Indonesia", currency: "IDR", fractionDigits: 0 },
+};
+
+export const DEFAULT_LOCALE: Locale = "en-US";
+
+// The currency prices are stored in
+export const BASE_CURRENCY = "USD";
+
+// Units of each currency per US dollar, by ISO 4217 code
+export type ExchangeRates = Record<string, number>;
+
+let currentLocale: Locale = detectLocale(globalThis.navigator?.language);
+let exchangeRates: ExchangeRates = { [BASE_CURRENCY]: 1 };
+// Tells subscribers when the locale or the exchange rates change
+export const localeStore = new ObservableStore();
+
+export function isLocale(value: string): value is Locale {
+  return Object.prototype.hasOwnProperty.call(LOCALES, value);
+}
+
+// Closest supported locale for a BCP 47 tag such as "id" or "en-GB"
+export function detectLocale(tag: string | undefined): Locale {
+  if (!tag) return DEFAULT_LOCALE;
+  if (isLocale(tag)) return tag;
+  const language = tag.split("-")[0].toLowerCase();
+  return (Object.keys(LOCALES) as Locale[]).find((locale) => locale.startsWith(`${language}-`)) ?? DEFAULT_LOCALE;
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  localeStore.notify();
+}
+
+// Rates are a pricing decision that goes stale, so they are supplied by the app (see main.tsx,
+// which reads VITE_EXCHANGE_RATES) rather than kept here. Meant to be set before rendering.
+export function setExchangeRates(rates: ExchangeRates): void {
+  Object.entries(rates).forEach(([currency, rate]) => {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid exchange rate for ${currency}: ${rate}`);
+    }
+  });
+  exchangeRates = { ...rates, [BASE_CURRENCY]: 1 };
+  localeStore.notify();
+}
+
+export function getExchangeRates(): ExchangeRates {
+  return { ...exchangeRates };
+}
+
+// "IDR=16000, EUR=0.92" into { IDR: 16000, EUR: 0.92 }; blank gives no rates.
+// A malformed pair or a currency listed twice fails here, at load time.
+export function parseExchangeRates(value: string | undefined): ExchangeRates {
+  const rates: ExchangeRates = {};
+  (value ?? "").split(",").map((pair) => pair.trim()).filter(Boolean).forEach((pair) => {
+    const match = /^([A-Z]{3})\s*=\s*(\d+(?:\.\d+)?)$/.exec(pair);
+    if (!match) {
+      throw new Error(`Invalid exchange rate "${pair}" - expected e.g. IDR=16000`);
+    }
+    const [, currency, rate] = match;
+    if (currency in rates) {
+      throw new Error(`Exchange rate for ${currency} is given more than once`);
+    }
+    rates[currency] = Number(rate);
+  });
+  return rates;
+}
+
+// The locale's currency when its rate is known, otherwise the one prices are stored in
+export function getDisplayCurrency(locale: Locale = currentLocale): string {
+  const { currency } = LOCALES[locale];
+  return currency in exchangeRates ? currency : BASE_CURRENCY;
+}
+
+// Called whenever the locale or the exchange rates change; returns an unsubscribe function
+export function subscribeLocale(listener: () => void): () => void {
+  return localeStore.subscribe(listener);
+}
+
+// Looks the message up for the locale and fills in its {placeholders}
+export function t(key: MessageKey, params: Record<string, string | number> = {}, locale: Locale = currentLocale): string {
+  const template = messages[locale][key] ?? messages[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// Formats a US dollar amount in the locale's display currency, e.g. "$2.99", "Rp 47.840" or "US$2,99"
+export function formatMoney(amountUsd: number, locale: Locale = currentLocale): string {
+  const currency = getDisplayCurrency(locale);
+  const { fractionDigits } = currency === LOCALES[locale].currency ? LOCALES[locale] : LOCALES[DEFAULT_LOCALE];
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amountUsd * exchangeRates[currency]);
+}
+
+// Short month name, 1 (January) to 12 (December)
+export function formatMonth(month: number, locale: Locale = currentLocale): string {
+  return new Intl.DateTimeFormat(locale, { month: "short", timeZone: "UTC" }).format(Date.UTC(2000, month - 1, 1));
+}
+
+/*
+Benefits of a message catalog:
+1. Product classes ask for a message by key; the wording per language lives in one place
+2. Prices are stored once, in dollars, and every product formats them the same way
+3. Switching the locale re-renders descriptions without re-creating products
+4. Exchange rates are injected by the app, so a stale rate is a configuration change, not a code change
+
+// Usage example:
+setLocale("id-ID");
+formatMoney(2.99);                       // "US$2,99" - no rupiah rate yet
+setExchangeRates({ IDR: 16000 });
+formatMoney(2.99);                       // "Rp 47.840"
+t("produce.organicName", { name: "Apel" }); // "Apel Organik"
+*/
@@ -0,0 +1,121 @@
+import { ObservableStore } from "./store";
+
+// Small structured logger shared by the creational modules.
+// Modules log through a Logger; where the events end up is decided by the sink the app injects.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: ReadonlyArray<LogLevel> = ["debug", "info", "warn", "error"];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEvent {
+  level: LogLevel;
+  message: string;
+  // Module that logged the event, e.g. "inventory"; empty for the root logger
+  source: string;
+  fields: LogFields;
+  timestamp: number;
+}
+
+export interface LogSink {
+  write(event: LogEvent): void;
+}
+
+// Drops every event - the default, so library code stays quiet in tests
+export class NoopLogSink implements LogSink {
+  write(): void {}
+}
+
+// Writes events to the browser or Node console at the matching level
+export class ConsoleLogSink implements LogSink {
+  constructor(private readonly console: Pick<Console, LogLevel> = globalThis.console) {}
+
+  write(event: LogEvent): void {
+    const prefix = event.source ? `[${event.source}] ` : "";
+    const hasFields = Object.keys(event.fields).length > 0;
+    this.console[event.level](`${prefix}${event.message}`, ...(hasFields ? [event.fields] : []));
+  }
+}
+
+// Keeps the most recent events in memory for display or assertions; subscribers are told
+// whenever the events change
+export class MemoryLogSink extends ObservableStore implements LogSink {
+  private events: LogEvent[] = [];
+
+  constructor(private readonly capacity: number = 500) {
+    super();
+  }
+
+  write(event: LogEvent): void {
+    // Replaced rather than mutated, so getEvents() works as a React snapshot
+    this.events = [...this.events, event].slice(-this.capacity);
+    this.notify();
+  }
+
+  getEvents(): LogEvent[] {
+    return this.events;
+  }
+
+  clear(): void {
+    this.events = [];
+    this.notify();
+  }
+}
+
+export class Logger {
+  constructor(
+    private readonly sink: LogSink = new NoopLogSink(),
+    private readonly source: string = "",
+    // Events below this level are dropped before they reach the sink
+    private readonly minLevel: LogLevel = "debug",
+    private readonly baseFields: LogFields = {}
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.minLevel)) return;
+    this.sink.write({
+      level,
+      message,
+      source: this.source,
+      fields: { ...this.baseFields, ...fields },
+      timestamp: Date.now(),
+    });
+  }
+
+  // Logger for a module: same sink and level, its own source, and fields added to every event
+  child(source: string, fields: LogFields = {}): Logger {
+    return new Logger(this.sink, source, this.minLevel, { ...this.baseFields, ...fields });
+  }
+}
+
+export const noopLogger = new Logger();
+
+/*
+Benefits of an injected logger:
+1. Modules never touch console directly, so tests and embedding apps stay quiet unless they opt in
+2. Events carry a level, a source and structured fields instead of pre-formatted strings
+3. Swapping the sink (console, memory, a telemetry backend) needs no change in the modules
+
+// Usage example:
+const sink = new MemoryLogSink();
+Inventory.setLogger(new Logger(sink)); // the inventory logs under the "inventory" source
+Inventory.getInstance().sellItem("Apple", 5);
+sink.getEvents(); // [{ level: "info", message: "Inventory system initialized", ... }, { level: "warn", ... }]
+*/
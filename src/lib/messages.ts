@@ -0,0 +1,104 @@
+// Message catalog for product text. Placeholders in braces are filled in by t() in ./i18n.
+// Every locale has to provide every key that English does.
+
+const en = {
+  "produce.description": "{name}: {text}{summary} ({price})",
+  "produce.organicName": "Organic {name}",
+  "produce.leafyGreen": "Fresh leafy green vegetable",
+  "produce.cruciferous": "Nutrient-dense cruciferous vegetable",
+  "produce.root": "Hearty root vegetable",
+  "produce.fruit": "Sweet and fresh fruit",
+  "produce.allium": "Pungent allium for depth of flavour",
+  "produce.legume": "Protein-rich legume",
+  "produce.herb": "Aromatic fresh herb",
+
+  "attributes.from": "from {country}",
+  "attributes.inSeason": "in season {season}",
+  "attributes.contains": "contains {allergens}",
+  "attributes.allYear": "all year",
+
+  "allergen.celery": "celery",
+  "allergen.mustard": "mustard",
+  "allergen.lupin": "lupin",
+  "allergen.soy": "soy",
+  "allergen.peanuts": "peanuts",
+  "allergen.tree-nuts": "tree nuts",
+  "allergen.sesame": "sesame",
+  "allergen.sulphites": "sulphites",
+
+  "fruit.regularApple": "Regular apple: {price} each",
+  "fruit.organicApple": "Organic apple: {price} each",
+  "fruit.regularMelon": "Regular melon: {price} each",
+  "fruit.organicMelon": "Organic melon: {price} each",
+  "fruit.premiumApple": "Premium apple: {price} each",
+  "fruit.premiumMelon": "Premium melon: {price} each",
+  "fruit.localApple": "Locally grown apple: {price} each",
+  "fruit.localMelon": "Locally grown melon: {price} each",
+
+  "packaging.regularBox": "Regular cardboard fruit box ({price})",
+  "packaging.regularWrapping": "Regular paper gift wrapping ({price})",
+  "packaging.organicBox": "Eco-friendly compostable fiber fruit box ({price})",
+  "packaging.organicWrapping": "Premium recycled paper gift wrapping with soy-based ink ({price})",
+  "packaging.premiumBox": "Premium wooden fruit crate ({price})",
+  "packaging.premiumWrapping": "Luxury silk-finish gift wrapping with satin ribbon ({price})",
+  "packaging.localBox": "Reusable woven bamboo market basket ({price})",
+  "packaging.localWrapping": "Brown kraft paper wrapping tied with twine ({price})",
+
+  "priceRange.under": "Under {max}",
+  "priceRange.between": "{min} - {max}",
+  "priceRange.from": "{min} and up",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+const id: MessageCatalog = {
+  "produce.description": "{name}: {text}{summary} ({price})",
+  "produce.organicName": "{name} Organik",
+  "produce.leafyGreen": "Sayuran daun segar",
+  "produce.cruciferous": "Sayuran kubis-kubisan kaya nutrisi",
+  "produce.root": "Sayuran umbi yang mengenyangkan",
+  "produce.fruit": "Buah manis dan segar",
+  "produce.allium": "Bawang-bawangan beraroma tajam untuk rasa yang lebih dalam",
+  "produce.legume": "Kacang-kacangan kaya protein",
+  "produce.herb": "Daun rempah segar yang harum",
+
+  "attributes.from": "dari {country}",
+  "attributes.inSeason": "musim {season}",
+  "attributes.contains": "mengandung {allergens}",
+  "attributes.allYear": "sepanjang tahun",
+
+  "allergen.celery": "seledri",
+  "allergen.mustard": "mustard",
+  "allergen.lupin": "lupin",
+  "allergen.soy": "kedelai",
+  "allergen.peanuts": "kacang tanah",
+  "allergen.tree-nuts": "kacang pohon",
+  "allergen.sesame": "wijen",
+  "allergen.sulphites": "sulfit",
+
+  "fruit.regularApple": "Apel biasa: {price} per buah",
+  "fruit.organicApple": "Apel organik: {price} per buah",
+  "fruit.regularMelon": "Melon biasa: {price} per buah",
+  "fruit.organicMelon": "Melon organik: {price} per buah",
+  "fruit.premiumApple": "Apel premium: {price} per buah",
+  "fruit.premiumMelon": "Melon premium: {price} per buah",
+  "fruit.localApple": "Apel lokal: {price} per buah",
+  "fruit.localMelon": "Melon lokal: {price} per buah",
+
+  "packaging.regularBox": "Kotak buah kardus biasa ({price})",
+  "packaging.regularWrapping": "Kertas kado biasa ({price})",
+  "packaging.organicBox": "Kotak buah serat kompos ramah lingkungan ({price})",
+  "packaging.organicWrapping": "Kertas kado daur ulang premium dengan tinta berbahan kedelai ({price})",
+  "packaging.premiumBox": "Peti buah kayu premium ({price})",
+  "packaging.premiumWrapping": "Kertas kado mewah bertekstur sutra dengan pita satin ({price})",
+  "packaging.localBox": "Keranjang pasar anyaman bambu yang dapat dipakai ulang ({price})",
+  "packaging.localWrapping": "Bungkus kertas cokelat diikat tali rami ({price})",
+
+  "priceRange.under": "Di bawah {max}",
+  "priceRange.between": "{min} - {max}",
+  "priceRange.from": "{min} ke atas",
+};
+
+export const messages = { "en-US": en, "id-ID": id } satisfies Record<string, MessageCatalog>;
@@ -0,0 +1,90 @@
+import { ObservableStore } from "./store";
+
+// Registry of creators: each one is registered under a key, with a display name and metadata,
+// so callers pick a factory by key instead of knowing every concrete class
+
+export interface FactoryRegistration<T, M> {
+  key: string;
+  displayName: string;
+  create: () => T;
+  metadata: M;
+}
+
+// Subscribers are told whenever a factory is registered or removed
+export class FactoryRegistry<T, M> extends ObservableStore {
+  private registrations = new Map<string, FactoryRegistration<T, M>>();
+  // Factories are created on first use and then reused
+  private factories = new Map<string, T>();
+  // What list() hands out until the next change, so it can serve as a React snapshot
+  private snapshot: ReadonlyArray<FactoryRegistration<T, M>> = [];
+
+  // kind names what is registered in error messages, e.g. "produce factory"
+  constructor(private readonly kind: string) {
+    super();
+  }
+
+  // Returns a function that removes the registration again
+  register(registration: FactoryRegistration<T, M>): () => void {
+    if (this.registrations.has(registration.key)) {
+      throw new Error(`A ${this.kind} is already registered as "${registration.key}"`);
+    }
+    this.registrations.set(registration.key, registration);
+    this.changed();
+    return () => this.unregister(registration.key);
+  }
+
+  unregister(key: string): boolean {
+    this.factories.delete(key);
+    const removed = this.registrations.delete(key);
+    if (removed) this.changed();
+    return removed;
+  }
+
+  has(key: string): boolean {
+    return this.registrations.has(key);
+  }
+
+  getRegistration(key: string): FactoryRegistration<T, M> | undefined {
+    return this.registrations.get(key);
+  }
+
+  getFactory(key: string): T {
+    const registration = this.registrations.get(key);
+    if (!registration) {
+      throw new Error(`No ${this.kind} is registered as "${key}"`);
+    }
+    let factory = this.factories.get(key);
+    if (!factory) {
+      factory = registration.create();
+      this.factories.set(key, factory);
+    }
+    return factory;
+  }
+
+  // The preferred key when it is registered, otherwise the first one
+  resolveKey(preferred?: string): string | undefined {
+    if (preferred && this.registrations.has(preferred)) return preferred;
+    return this.snapshot[0]?.key;
+  }
+
+  // Registrations in the order they were added; the same array until something is registered or removed
+  list(): ReadonlyArray<FactoryRegistration<T, M>> {
+    return this.snapshot;
+  }
+
+  private changed(): void {
+    this.snapshot = Array.from(this.registrations.values());
+    this.notify();
+  }
+}
+
+/*
+Benefits of one registry for every kind of factory:
+1. Produce categories and fruit families are registered, looked up and listed the same way
+2. Lazy creation, duplicate checks and change notification are written once
+
+// Usage example:
+const registry = new FactoryRegistry<FruitFactory, { description: string }>("fruit family");
+registry.register({ key: "organic", displayName: "Organic Factory", create: () => new OrganicFruitFactory(), metadata: { description: "Certified organic" } });
+registry.getFactory("organic").createApple();
+*/
@@ -0,0 +1,50 @@
+// State that React components read through useStore: subscribers are told after every change,
+// and the version counts the changes so far
+
+export interface Subscribable {
+  // Returns an unsubscribe function
+  subscribe(listener: () => void): () => void;
+}
+
+export class ObservableStore implements Subscribable {
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  // Called by whatever owns the state, after changing it
+  notify(): void {
+    this.version++;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/*
+Benefits of one observable store:
+1. Registries, logs, the search index and the locale notify React the same way
+2. Every store works with the one useStore hook
+
+// Usage example:
+class Counter extends ObservableStore {
+  private count = 0;
+  increment(): void {
+    this.count++;
+    this.notify();
+  }
+  getCount(): number {
+    return this.count;
+  }
+}
+
+const counter = new Counter();
+const count = useStore(counter, () => counter.getCount());
+*/
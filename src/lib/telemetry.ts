@@ -0,0 +1,6 @@
+import { Logger, MemoryLogSink } from "./logger";
+
+// The app's log: kept in memory so the demos can show what the modules reported
+export const appLogSink = new MemoryLogSink(200);
+
+export const appLogger = new Logger(appLogSink);
@@ -2,6 +2,17 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { appLogger } from "./lib/telemetry";
+import { parseExchangeRates, setExchangeRates } from "./lib/i18n";
+import { Inventory } from "./module/SingleTon/inventory";
+import { ProduceFactory } from "./module/FactoryMethod/vegetable";
+
+// Route the modules' diagnostics into the in-memory log the demos render
+Inventory.setLogger(appLogger);
+ProduceFactory.setLogger(appLogger);
+
+// Prices are stored in dollars; other currencies are shown at the rates the deployment configures
+setExchangeRates(parseExchangeRates(import.meta.env.VITE_EXCHANGE_RATES));
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
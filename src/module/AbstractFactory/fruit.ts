@@ -4,6 +4,8 @@ import {
 	FruitBox,
 	GiftWrapping
 } from './packaging';
+// Descriptions are worded and priced for the current locale
+import { formatMoney, t } from '../../lib/i18n';
 
 
 // Abstract Product interfaces
@@ -39,7 +41,7 @@ class RegularApple implements Apple {
 	}
 
 	getDescription(): string {
-		return `Regular apple: $${this.getPrice()} each`;
+		return t('fruit.regularApple', { price: formatMoney(this.getPrice()) });
 	}
 
 	isGood(): boolean {
@@ -61,7 +63,7 @@ class OrganicApple implements Apple {
 	}
 
 	getDescription(): string {
-		return `Organic apple: $${this.getPrice()} each`;
+		return t('fruit.organicApple', { price: formatMoney(this.getPrice()) });
 	}
 
 	isGood(): boolean {
@@ -83,7 +85,7 @@ class RegularMelon implements Melon {
 	}
 
 	getDescription(): string {
-		return `Regular melon: $${this.getPrice()} each`;
+		return t('fruit.regularMelon', { price: formatMoney(this.getPrice()) });
 	}
 
 	isRipe(): boolean {
@@ -105,7 +107,95 @@ class OrganicMelon implements Melon {
 	}
 
 	getDescription(): string {
-		return `Organic melon: $${this.getPrice()} each`;
+		return t('fruit.organicMelon', { price: formatMoney(this.getPrice()) });
+	}
+
+	isRipe(): boolean {
+		return true;
+	}
+}
+
+class PremiumApple implements Apple {
+	getType(): string {
+		return 'premium';
+	}
+
+	getPrice(): number {
+		return 2.99;
+	}
+
+	planting(): string {
+		return 'Hand-picking premium apples from heritage orchards';
+	}
+
+	getDescription(): string {
+		return t('fruit.premiumApple', { price: formatMoney(this.getPrice()) });
+	}
+
+	isGood(): boolean {
+		return true;
+	}
+}
+
+class PremiumMelon implements Melon {
+	getType(): string {
+		return 'premium';
+	}
+
+	getPrice(): number {
+		return 9.99;
+	}
+
+	planting(): string {
+		return 'Growing premium melons one per vine under glass';
+	}
+
+	getDescription(): string {
+		return t('fruit.premiumMelon', { price: formatMoney(this.getPrice()) });
+	}
+
+	isRipe(): boolean {
+		return true;
+	}
+}
+
+class LocalApple implements Apple {
+	getType(): string {
+		return 'local';
+	}
+
+	getPrice(): number {
+		return 1.29;
+	}
+
+	planting(): string {
+		return 'Growing apples in family orchards within 100 km of the store';
+	}
+
+	getDescription(): string {
+		return t('fruit.localApple', { price: formatMoney(this.getPrice()) });
+	}
+
+	isGood(): boolean {
+		return true;
+	}
+}
+
+class LocalMelon implements Melon {
+	getType(): string {
+		return 'local';
+	}
+
+	getPrice(): number {
+		return 4.49;
+	}
+
+	planting(): string {
+		return 'Growing melons on nearby farms and picking them the day before sale';
+	}
+
+	getDescription(): string {
+		return t('fruit.localMelon', { price: formatMoney(this.getPrice()) });
 	}
 
 	isRipe(): boolean {
@@ -124,7 +214,7 @@ class RegularFruitBox implements FruitBox {
 	}
 
 	getDescription(): string {
-		return `Regular cardboard fruit box ($${this.getCost().toFixed(2)})`;
+		return t('packaging.regularBox', { price: formatMoney(this.getCost()) });
 	}
 
 	getCost(): number {
@@ -146,7 +236,7 @@ class RegularGiftWrapping implements GiftWrapping {
 	}
 
 	getDescription(): string {
-		return `Regular paper gift wrapping ($${this.getCost().toFixed(2)})`;
+		return t('packaging.regularWrapping', { price: formatMoney(this.getCost()) });
 	}
 
 	getCost(): number {
@@ -168,7 +258,7 @@ class OrganicFruitBox implements FruitBox {
 	}
 
 	getDescription(): string {
-		return `Eco-friendly compostable fiber fruit box ($${this.getCost().toFixed(2)})`;
+		return t('packaging.organicBox', { price: formatMoney(this.getCost()) });
 	}
 
 	getCost(): number {
@@ -190,7 +280,7 @@ class OrganicGiftWrapping implements GiftWrapping {
 	}
 
 	getDescription(): string {
-		return `Premium recycled paper gift wrapping with soy-based ink ($${this.getCost().toFixed(2)})`;
+		return t('packaging.organicWrapping', { price: formatMoney(this.getCost()) });
 	}
 
 	getCost(): number {
@@ -202,6 +292,94 @@ class OrganicGiftWrapping implements GiftWrapping {
 	}
 }
 
+class PremiumFruitBox implements FruitBox {
+	getMaterial(): string {
+		return 'reusable wooden crate';
+	}
+
+	isRecyclable(): boolean {
+		return true;
+	}
+
+	getDescription(): string {
+		return t('packaging.premiumBox', { price: formatMoney(this.getCost()) });
+	}
+
+	getCost(): number {
+		return 4.50;
+	}
+
+	getCapacity(): number {
+		return 4; // Premium crate cushions each fruit in its own nest
+	}
+}
+
+class PremiumGiftWrapping implements GiftWrapping {
+	getMaterial(): string {
+		return 'silk-finish paper';
+	}
+
+	isRecyclable(): boolean {
+		return false;
+	}
+
+	getDescription(): string {
+		return t('packaging.premiumWrapping', { price: formatMoney(this.getCost()) });
+	}
+
+	getCost(): number {
+		return 5.95;
+	}
+
+	hasRibbon(): boolean {
+		return true; // Premium wrapping comes with a satin ribbon
+	}
+}
+
+class LocalFruitBox implements FruitBox {
+	getMaterial(): string {
+		return 'woven bamboo basket';
+	}
+
+	isRecyclable(): boolean {
+		return true;
+	}
+
+	getDescription(): string {
+		return t('packaging.localBox', { price: formatMoney(this.getCost()) });
+	}
+
+	getCost(): number {
+		return 2.00;
+	}
+
+	getCapacity(): number {
+		return 10; // Market basket holds a family-sized load
+	}
+}
+
+class LocalGiftWrapping implements GiftWrapping {
+	getMaterial(): string {
+		return 'brown kraft paper';
+	}
+
+	isRecyclable(): boolean {
+		return true;
+	}
+
+	getDescription(): string {
+		return t('packaging.localWrapping', { price: formatMoney(this.getCost()) });
+	}
+
+	getCost(): number {
+		return 0.95;
+	}
+
+	hasRibbon(): boolean {
+		return false; // Local wrapping is tied with twine, not a ribbon
+	}
+}
+
 // Abstract Factory interface - now creates both fruits AND packaging
 export interface FruitFactory {
 	// Fruit product family
@@ -255,15 +433,56 @@ export class OrganicFruitFactory implements FruitFactory {
 	}
 }
 
+export class PremiumFruitFactory implements FruitFactory {
+	// Fruit product family
+	createApple(): Apple {
+		return new PremiumApple();
+	}
+
+	createMelon(): Melon {
+		return new PremiumMelon();
+	}
+
+	// Packaging product family
+	createFruitBox(): FruitBox {
+		return new PremiumFruitBox();
+	}
+
+	createGiftWrapping(): GiftWrapping {
+		return new PremiumGiftWrapping();
+	}
+}
+
+export class LocalFruitFactory implements FruitFactory {
+	// Fruit product family
+	createApple(): Apple {
+		return new LocalApple();
+	}
+
+	createMelon(): Melon {
+		return new LocalMelon();
+	}
+
+	// Packaging product family
+	createFruitBox(): FruitBox {
+		return new LocalFruitBox();
+	}
+
+	createGiftWrapping(): GiftWrapping {
+		return new LocalGiftWrapping();
+	}
+}
+
 /* 
 Benefits of Abstract Factory pattern:
 1. Consistent interfaces across all product variants
 2. Common base types (Apple, Melon, FruitBox, GiftWrapping) allow for polymorphism
 3. Code reuse through interfaces
 4. Adding a new product type only requires implementing interfaces
-5. Adding a new variant (e.g., "premium") only requires one new factory class
+5. Adding a new variant (e.g., "premium" or "local") only requires one new factory class
 6. Guarantees consistent implementation across variants
 7. Creates families of related products that work well together
+8. Every product describes itself through the message catalog, so all variants switch language together
 
 // Usage example:
 // Client code using regular fruits and packaging
@@ -280,6 +499,10 @@ const organicMelon: Melon = organicFactory.createMelon();
 const organicBox: FruitBox = organicFactory.createFruitBox();
 const organicWrap: GiftWrapping = organicFactory.createGiftWrapping();
 
+// Premium and locally sourced lines follow the same interfaces
+const premiumBox: FruitBox = new PremiumFruitFactory().createFruitBox(); // wooden crate for 4
+const localBox: FruitBox = new LocalFruitFactory().createFruitBox();     // bamboo basket for 10
+
 // Key benefit: The entire product family is consistent
 // A regular fruit should be packaged in regular packaging
 // An organic fruit should be packaged in organic packaging
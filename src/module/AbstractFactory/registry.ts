@@ -0,0 +1,97 @@
+import {
+	FruitFactory,
+	LocalFruitFactory,
+	OrganicFruitFactory,
+	PremiumFruitFactory,
+	RegularFruitFactory
+} from './fruit';
+import { FactoryRegistration, FactoryRegistry } from '../../lib/registry';
+
+// Registry of product families: each family registers its abstract factory under a key,
+// so clients pick a family by key instead of knowing every concrete factory class
+
+export interface FruitFamilyMetadata {
+	description: string;
+	tags?: string[];
+}
+
+export type FruitFamilyRegistration = FactoryRegistration<FruitFactory, FruitFamilyMetadata>;
+
+export class FruitFactoryRegistry extends FactoryRegistry<FruitFactory, FruitFamilyMetadata> {
+	constructor() {
+		super('fruit family');
+	}
+}
+
+export const fruitFamilyRegistrations: ReadonlyArray<FruitFamilyRegistration> = [
+	{
+		key: 'regular',
+		displayName: 'Regular Factory',
+		create: () => new RegularFruitFactory(),
+		metadata: { description: 'Everyday fruit in cardboard boxes and plain paper', tags: ['budget'] },
+	},
+	{
+		key: 'organic',
+		displayName: 'Organic Factory',
+		create: () => new OrganicFruitFactory(),
+		metadata: { description: 'Certified organic fruit in compostable packaging', tags: ['organic', 'eco'] },
+	},
+	{
+		key: 'premium',
+		displayName: 'Premium Factory',
+		create: () => new PremiumFruitFactory(),
+		metadata: { description: 'Heritage fruit in wooden crates with satin ribbon', tags: ['gift'] },
+	},
+	{
+		key: 'local',
+		displayName: 'Local Factory',
+		create: () => new LocalFruitFactory(),
+		metadata: { description: 'Fruit from nearby farms in reusable baskets', tags: ['local', 'eco'] },
+	},
+];
+
+// Comma-separated family keys, e.g. "organic, local"; blank means every family
+export function parseFamilyKeys(value: string | undefined): string[] | null {
+	const keys = (value ?? '').split(',').map(key => key.trim()).filter(Boolean);
+	return keys.length > 0 ? keys : null;
+}
+
+// Registers the listed families in the listed order, or every family when keys is null.
+// An unknown key fails here, at load time, rather than when the demo picks a family.
+export function registerFruitFamilies(registry: FruitFactoryRegistry, keys: string[] | null): void {
+	// A key listed twice is registered once, in its first position
+	const selected = Array.from(new Set(keys ?? fruitFamilyRegistrations.map(registration => registration.key)));
+	selected.forEach(key => {
+		const registration = fruitFamilyRegistrations.find(candidate => candidate.key === key);
+		if (!registration) {
+			throw new Error(`Unknown fruit family "${key}" - expected one of ${fruitFamilyRegistrations.map(candidate => candidate.key).join(', ')}`);
+		}
+		registry.register(registration);
+	});
+}
+
+// The families on offer and the one selected at start come from the environment,
+// e.g. VITE_FRUIT_FAMILIES=organic,local and VITE_FRUIT_FAMILY=local in .env.local
+export const defaultFruitFamily: string | undefined = import.meta.env.VITE_FRUIT_FAMILY?.trim() || undefined;
+
+// The registry the app uses
+export const fruitFactoryRegistry = new FruitFactoryRegistry();
+registerFruitFamilies(fruitFactoryRegistry, parseFamilyKeys(import.meta.env.VITE_FRUIT_FAMILIES));
+
+/*
+Benefits of the family registry:
+1. Clients look an abstract factory up by key and never import concrete factory classes
+2. Deployments choose their families through the environment, without code changes
+3. Display names and metadata travel with the factory, so pickers build themselves
+
+// Usage example:
+fruitFactoryRegistry.register({
+	key: 'exotic',
+	displayName: 'Exotic Factory',
+	create: () => new ExoticFruitFactory(),
+	metadata: { description: 'Imported fruit in insulated boxes' },
+});
+
+const factory: FruitFactory = fruitFactoryRegistry.getFactory(fruitFactoryRegistry.resolveKey(defaultFruitFamily) ?? 'regular');
+const giftSet = createGiftSet(factory);
+*/
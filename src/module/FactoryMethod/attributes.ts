@@ -0,0 +1,87 @@
+import { Locale, formatMonth, getLocale, t } from '../../lib/i18n';
+
+// Storefront attributes of a produce item: nutrition, origin, allergens and seasonality.
+// Categories supply defaults (cruciferous vegetables highlight their fiber), items override them.
+
+// Per 100 g of the edible part
+export interface NutritionFacts {
+    energyKcal: number;
+    proteinG: number;
+    carbohydrateG: number;
+    sugarG: number;
+    fiberG: number;
+    fatG: number;
+    vitaminCMg?: number;
+}
+
+// The regulated allergens that occur in fresh produce
+export type Allergen = 'celery' | 'mustard' | 'lupin' | 'soy' | 'peanuts' | 'tree-nuts' | 'sesame' | 'sulphites';
+
+export const ALLERGENS: ReadonlyArray<Allergen> = ['celery', 'mustard', 'lupin', 'soy', 'peanuts', 'tree-nuts', 'sesame', 'sulphites'];
+
+export interface ProduceAttributes {
+    nutrition: NutritionFacts | null;
+    countryOfOrigin: string | null;
+    allergens: Allergen[];
+    // 1 (January) to 12 (December); empty when the item is available all year
+    inSeasonMonths: number[];
+    // Short selling points such as "High in fiber"
+    highlights: string[];
+}
+
+// Layers attribute sets left to right; later sets win, highlights and allergens accumulate
+export function mergeAttributes(...layers: Array<Partial<ProduceAttributes>>): ProduceAttributes {
+    return layers.reduce<ProduceAttributes>(
+        (merged, layer) => ({
+            nutrition: layer.nutrition !== undefined ? layer.nutrition && { ...layer.nutrition } : merged.nutrition,
+            countryOfOrigin: layer.countryOfOrigin !== undefined ? layer.countryOfOrigin : merged.countryOfOrigin,
+            allergens: unique([...merged.allergens, ...(layer.allergens ?? [])]),
+            inSeasonMonths: layer.inSeasonMonths !== undefined ? [...layer.inSeasonMonths].sort((a, b) => a - b) : merged.inSeasonMonths,
+            highlights: unique([...merged.highlights, ...(layer.highlights ?? [])]),
+        }),
+        { nutrition: null, countryOfOrigin: null, allergens: [], inSeasonMonths: [], highlights: [] }
+    );
+}
+
+export function isInSeason(attributes: ProduceAttributes, month: number): boolean {
+    return attributes.inSeasonMonths.length === 0 || attributes.inSeasonMonths.includes(month);
+}
+
+// "Jun-Aug", "Nov-Feb" or "all year", in the current locale unless one is given
+export function describeSeason(months: ReadonlyArray<number>, locale: Locale = getLocale()): string {
+    if (months.length === 0 || months.length === 12) return t('attributes.allYear', {}, locale);
+    const runs: number[][] = [];
+    months.forEach(month => {
+        const run = runs[runs.length - 1];
+        if (run && run[run.length - 1] === month - 1) run.push(month);
+        else runs.push([month]);
+    });
+    // A season running over the new year is one run, not two
+    if (runs.length > 1 && runs[0][0] === 1 && runs[runs.length - 1].slice(-1)[0] === 12) {
+        runs[0] = [...runs.pop()!, ...runs[0]];
+    }
+    return runs
+        .map(run => run.length === 1
+            ? formatMonth(run[0], locale)
+            : `${formatMonth(run[0], locale)}-${formatMonth(run[run.length - 1], locale)}`)
+        .join(', ');
+}
+
+// One-line summary for descriptions, e.g. "High in fiber; from Spain; contains celery".
+// Highlights and the country are shown as the data has them; the connecting words are localized.
+export function summarizeAttributes(attributes: ProduceAttributes, locale: Locale = getLocale()): string {
+    const allergens = attributes.allergens.map(allergen => t(`allergen.${allergen}`, {}, locale));
+    const parts = [
+        ...attributes.highlights,
+        ...(attributes.countryOfOrigin ? [t('attributes.from', { country: attributes.countryOfOrigin }, locale)] : []),
+        ...(attributes.inSeasonMonths.length > 0
+            ? [t('attributes.inSeason', { season: describeSeason(attributes.inSeasonMonths, locale) }, locale)]
+            : []),
+        ...(allergens.length > 0 ? [t('attributes.contains', { allergens: allergens.join(', ') }, locale)] : []),
+    ];
+    return parts.join('; ');
+}
+
+function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
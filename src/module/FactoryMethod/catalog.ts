@@ -0,0 +1,406 @@
+import { Either, isLeft, left, right } from 'fp-ts/Either';
+import { Locale, formatMoney, getLocale, isLocale, t } from '../../lib/i18n';
+import { ALLERGENS, Allergen, NutritionFacts, ProduceAttributes, describeSeason } from './attributes';
+import { Produce, ProduceFactory } from './vegetable';
+import { ProduceSkuIndex, produceSkuIndex } from './sku';
+import { PricingStrategy, categoryPricing } from './pricing';
+import { ProduceFactoryRegistry } from './registry';
+
+// Data-driven produce catalog: categories, description templates, default prices and
+// organic premiums come from a JSON file instead of compiled Produce subclasses
+
+export interface CatalogCategory {
+    key: string;
+    displayName: string;
+    description: string;
+    // Placeholders: {organic} ("Organic " or nothing), {name}, {displayName} ("Organic Kale" in the
+    // locale's word order), {price} (in the locale's currency), {category}, {origin}, {season},
+    // {highlights} and {summary} (" - High in fiber; from Spain", or nothing)
+    descriptionTemplate: string;
+    // The template in other languages, by locale; descriptionTemplate is used for the rest
+    localizedTemplates?: Partial<Record<Locale, string>>;
+    // Price of items that do not list their own
+    defaultPrice: number;
+    // Percentage added to the price of the organic variant
+    organicPremium: number;
+    // Cents every price of the category is rounded to, e.g. 0.99
+    priceEnding?: number;
+    // Attributes every item of the category starts with
+    defaults?: Partial<ProduceAttributes>;
+}
+
+export interface CatalogItem {
+    name: string;
+    category: string;
+    price?: number;
+    attributes?: Partial<ProduceAttributes>;
+}
+
+export interface ProduceCatalog {
+    categories: CatalogCategory[];
+    items: CatalogItem[];
+}
+
+export interface CatalogError {
+    // Where in the file the problem is, e.g. "categories[2].defaultPrice"
+    path: string;
+    message: string;
+}
+
+export class InvalidCatalogError extends Error {
+    constructor(public readonly errors: CatalogError[]) {
+        super(`Invalid produce catalog: ${errors.map(error => `${error.path}: ${error.message}`).join('; ')}`);
+        this.name = 'InvalidCatalogError';
+    }
+}
+
+const TEMPLATE_PLACEHOLDERS = ['organic', 'name', 'displayName', 'price', 'category', 'origin', 'season', 'highlights', 'summary'];
+
+const NUTRITION_FIELDS: ReadonlyArray<keyof NutritionFacts> = ['energyKcal', 'proteinG', 'carbohydrateG', 'sugarG', 'fiberG', 'fatG', 'vitaminCMg'];
+
+// Checks untrusted data (a parsed JSON file) against the catalog format
+export function validateProduceCatalog(data: unknown): Either<CatalogError[], ProduceCatalog> {
+    const errors: CatalogError[] = [];
+    if (!isRecord(data)) {
+        return left([{ path: '', message: 'Expected an object with "categories" and "items"' }]);
+    }
+    if (!Array.isArray(data.categories)) errors.push({ path: 'categories', message: 'Expected an array' });
+    if (!Array.isArray(data.items)) errors.push({ path: 'items', message: 'Expected an array' });
+    if (errors.length > 0) return left(errors);
+
+    const categories = (data.categories as unknown[]).flatMap((value, index) => {
+        const category = validateCategory(value, `categories[${index}]`, errors);
+        return category ? [category] : [];
+    });
+    const keys = new Set<string>();
+    categories.forEach((category, index) => {
+        if (keys.has(category.key)) {
+            errors.push({ path: `categories[${index}].key`, message: `Duplicate category "${category.key}"` });
+        }
+        keys.add(category.key);
+    });
+
+    const names = new Set<string>();
+    const items = (data.items as unknown[]).flatMap((value, index) => {
+        const path = `items[${index}]`;
+        const item = validateItem(value, path, errors);
+        if (!item) return [];
+        if (!keys.has(item.category)) {
+            errors.push({ path: `${path}.category`, message: `Unknown category "${item.category}"` });
+        }
+        if (names.has(item.name.toLowerCase())) {
+            errors.push({ path: `${path}.name`, message: `Duplicate item "${item.name}"` });
+        }
+        names.add(item.name.toLowerCase());
+        return [item];
+    });
+
+    return errors.length > 0 ? left(errors) : right({ categories, items });
+}
+
+// Like validateProduceCatalog, but throws InvalidCatalogError - for catalogs that ship with the app
+export function loadProduceCatalog(data: unknown): ProduceCatalog {
+    const result = validateProduceCatalog(data);
+    if (isLeft(result)) throw new InvalidCatalogError(result.left);
+    return result.right;
+}
+
+// For catalogs uploaded or fetched at runtime
+export function parseProduceCatalog(text: string): Either<CatalogError[], ProduceCatalog> {
+    try {
+        return validateProduceCatalog(JSON.parse(text));
+    } catch (error) {
+        return left([{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]);
+    }
+}
+
+// Concrete Product whose description comes from its catalog category
+export class CatalogProduce extends Produce {
+    constructor(
+        name: string,
+        price: number,
+        private readonly catalogCategory: CatalogCategory,
+        organic: boolean = false,
+        attributes: Partial<ProduceAttributes> = {}
+    ) {
+        super(name, price, catalogCategory.key, organic, attributes);
+    }
+
+    getDescription(): string {
+        const { descriptionTemplate, localizedTemplates } = this.catalogCategory;
+        return renderTemplate(localizedTemplates?.[getLocale()] ?? descriptionTemplate, {
+            organic: this.organic ? 'Organic ' : '',
+            name: this.name,
+            displayName: this.organic ? t('produce.organicName', { name: this.name }) : this.name,
+            price: formatMoney(this.price),
+            category: this.catalogCategory.displayName,
+            origin: this.attributes.countryOfOrigin ?? '',
+            season: describeSeason(this.attributes.inSeasonMonths),
+            highlights: this.attributes.highlights.join(', '),
+            summary: this.attributeSummary(),
+        });
+    }
+}
+
+// Concrete Creator for one catalog category. With a compiled creator the products are that
+// creator's class, while defaults and prices still come from the catalog.
+export class CatalogProduceFactory extends ProduceFactory {
+    constructor(
+        public readonly catalogCategory: CatalogCategory,
+        private readonly items: CatalogItem[],
+        private readonly creator?: ProduceFactory
+    ) {
+        super();
+    }
+
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return this.creator
+            ? this.creator.createProduce(name, price, organic, attributes)
+            : new CatalogProduce(name, price, this.catalogCategory, organic, attributes);
+    }
+
+    getDefaultAttributes(): Partial<ProduceAttributes> {
+        return this.catalogCategory.defaults ?? {};
+    }
+
+    // The category's organic premium and price ending
+    getDefaultPricing(): PricingStrategy[] {
+        return categoryPricing(this.catalogCategory.organicPremium, this.catalogCategory.priceEnding);
+    }
+
+    // Items the catalog lists under this category
+    getItems(): CatalogItem[] {
+        return this.items.map(item => ({ ...item }));
+    }
+
+    // Base price of a listed item (or the category default); the pricing strategies apply on top
+    getCatalogPrice(name: string): number {
+        return this.findItem(name)?.price ?? this.catalogCategory.defaultPrice;
+    }
+
+    // Creates an item from its catalog price, with the attributes the catalog lists for it
+    getCatalogProduce(name: string, organic: boolean = false): Produce {
+        const item = this.findItem(name);
+        return this.getProduce(item?.name ?? name, this.getCatalogPrice(name), organic, item?.attributes);
+    }
+
+    // Item attributes the catalog lists for the name, if any; the category defaults are applied by getProduce
+    getCatalogAttributes(name: string): Partial<ProduceAttributes> {
+        return this.findItem(name)?.attributes ?? {};
+    }
+
+    private findItem(name: string): CatalogItem | undefined {
+        return this.items.find(item => item.name.toLowerCase() === name.trim().toLowerCase());
+    }
+}
+
+// Registers one factory per catalog category, and the SKUs of both variants of every item;
+// returns a function that removes the factories again. Categories with a compiled creator
+// (keyed by category; its products must carry the same category) create that creator's products.
+export function registerCatalog(
+    registry: ProduceFactoryRegistry,
+    catalog: ProduceCatalog,
+    skuIndex: ProduceSkuIndex = produceSkuIndex,
+    creators: Partial<Record<string, ProduceFactory>> = {}
+): () => void {
+    catalog.items.forEach(item => {
+        skuIndex.register(item.category, item.name, false);
+        skuIndex.register(item.category, item.name, true);
+    });
+    const unregister = catalog.categories.map(category => {
+        const items = catalog.items.filter(item => item.category === category.key);
+        return registry.register({
+            key: category.key,
+            displayName: category.displayName,
+            create: () => new CatalogProduceFactory(category, items, creators[category.key]),
+            metadata: {
+                description: category.description,
+                examples: items.map(item => item.name),
+                tags: ['catalog'],
+            },
+        });
+    });
+    return () => unregister.forEach(remove => remove());
+}
+
+function validateCategory(value: unknown, path: string, errors: CatalogError[]): CatalogCategory | null {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'Expected an object' });
+        return null;
+    }
+    const before = errors.length;
+    const key = requireString(value, 'key', path, errors);
+    const displayName = requireString(value, 'displayName', path, errors);
+    const description = requireString(value, 'description', path, errors);
+    const descriptionTemplate = requireString(value, 'descriptionTemplate', path, errors);
+    const localizedTemplates = value.localizedTemplates === undefined
+        ? undefined
+        : validateLocalizedTemplates(value.localizedTemplates, `${path}.localizedTemplates`, errors);
+    const defaultPrice = requireAmount(value, 'defaultPrice', path, errors);
+    const organicPremium = requireAmount(value, 'organicPremium', path, errors);
+    const priceEnding = value.priceEnding === undefined ? undefined : requireAmount(value, 'priceEnding', path, errors);
+    const defaults = value.defaults === undefined ? undefined : validateAttributes(value.defaults, `${path}.defaults`, errors);
+
+    if (descriptionTemplate !== null) validateTemplate(descriptionTemplate, `${path}.descriptionTemplate`, errors);
+    if (priceEnding != null && priceEnding >= 1) {
+        errors.push({ path: `${path}.priceEnding`, message: 'Expected cents below 1, e.g. 0.99' });
+    }
+    if (errors.length > before) return null;
+    return {
+        key: key!,
+        displayName: displayName!,
+        description: description!,
+        descriptionTemplate: descriptionTemplate!,
+        ...(localizedTemplates ? { localizedTemplates } : {}),
+        defaultPrice: defaultPrice!,
+        organicPremium: organicPremium!,
+        ...(priceEnding !== undefined ? { priceEnding: priceEnding! } : {}),
+        ...(defaults ? { defaults } : {}),
+    };
+}
+
+function validateTemplate(template: string, path: string, errors: CatalogError[]): void {
+    if (!template.includes('{name}') && !template.includes('{displayName}')) {
+        errors.push({ path, message: 'Must contain the {name} or {displayName} placeholder' });
+    }
+    const unknown = Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1])
+        .filter(placeholder => !TEMPLATE_PLACEHOLDERS.includes(placeholder));
+    if (unknown.length > 0) {
+        errors.push({ path, message: `Unknown placeholder(s): ${unknown.join(', ')}` });
+    }
+}
+
+function validateLocalizedTemplates(value: unknown, path: string, errors: CatalogError[]): Partial<Record<Locale, string>> | null {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'Expected an object of templates by locale' });
+        return null;
+    }
+    const before = errors.length;
+    const templates: Partial<Record<Locale, string>> = {};
+    Object.entries(value).forEach(([locale, template]) => {
+        if (!isLocale(locale)) {
+            errors.push({ path: `${path}.${locale}`, message: 'Unsupported locale' });
+        } else if (typeof template !== 'string' || template.trim() === '') {
+            errors.push({ path: `${path}.${locale}`, message: 'Expected a non-empty string' });
+        } else {
+            validateTemplate(template, `${path}.${locale}`, errors);
+            templates[locale] = template;
+        }
+    });
+    return errors.length > before ? null : templates;
+}
+
+function validateItem(value: unknown, path: string, errors: CatalogError[]): CatalogItem | null {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'Expected an object' });
+        return null;
+    }
+    const before = errors.length;
+    const name = requireString(value, 'name', path, errors);
+    const category = requireString(value, 'category', path, errors);
+    const price = value.price === undefined ? undefined : requireAmount(value, 'price', path, errors);
+    const attributes = value.attributes === undefined ? undefined : validateAttributes(value.attributes, `${path}.attributes`, errors);
+    if (errors.length > before) return null;
+    return {
+        name: name!,
+        category: category!,
+        ...(price !== undefined ? { price: price! } : {}),
+        ...(attributes ? { attributes } : {}),
+    };
+}
+
+// Also checks attributes stored with serialized produce
+export function validateAttributes(value: unknown, path: string, errors: CatalogError[]): Partial<ProduceAttributes> | null {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'Expected an object' });
+        return null;
+    }
+    const before = errors.length;
+    const attributes: Partial<ProduceAttributes> = {};
+
+    // null clears what a lower layer set
+    if (value.nutrition === null) {
+        attributes.nutrition = null;
+    } else if (value.nutrition !== undefined) {
+        if (!isRecord(value.nutrition)) {
+            errors.push({ path: `${path}.nutrition`, message: 'Expected an object of amounts per 100 g' });
+        } else {
+            const nutrition = value.nutrition;
+            const optional: ReadonlyArray<keyof NutritionFacts> = ['vitaminCMg'];
+            NUTRITION_FIELDS
+                .filter(field => !(optional.includes(field) && nutrition[field] === undefined))
+                .forEach(field => requireAmount(nutrition, field, `${path}.nutrition`, errors));
+            attributes.nutrition = nutrition as unknown as NutritionFacts;
+        }
+    }
+    if (value.countryOfOrigin === null) {
+        attributes.countryOfOrigin = null;
+    } else if (value.countryOfOrigin !== undefined) {
+        attributes.countryOfOrigin = requireString(value, 'countryOfOrigin', path, errors);
+    }
+    if (value.allergens !== undefined) {
+        const allergens = value.allergens;
+        if (!Array.isArray(allergens) || allergens.some(allergen => !ALLERGENS.includes(allergen))) {
+            errors.push({ path: `${path}.allergens`, message: `Expected a list of: ${ALLERGENS.join(', ')}` });
+        } else {
+            attributes.allergens = allergens as Allergen[];
+        }
+    }
+    if (value.inSeasonMonths !== undefined) {
+        const months = value.inSeasonMonths;
+        if (!Array.isArray(months) || months.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+            errors.push({ path: `${path}.inSeasonMonths`, message: 'Expected a list of months from 1 to 12' });
+        } else {
+            attributes.inSeasonMonths = months as number[];
+        }
+    }
+    if (value.highlights !== undefined) {
+        const highlights = value.highlights;
+        if (!Array.isArray(highlights) || highlights.some(highlight => typeof highlight !== 'string' || highlight.trim() === '')) {
+            errors.push({ path: `${path}.highlights`, message: 'Expected a list of non-empty strings' });
+        } else {
+            attributes.highlights = highlights as string[];
+        }
+    }
+    return errors.length > before ? null : attributes;
+}
+
+function requireString(record: Record<string, unknown>, field: string, path: string, errors: CatalogError[]): string | null {
+    const value = record[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+        errors.push({ path: `${path}.${field}`, message: 'Expected a non-empty string' });
+        return null;
+    }
+    return value.trim();
+}
+
+function requireAmount(record: Record<string, unknown>, field: string, path: string, errors: CatalogError[]): number | null {
+    const value = record[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        errors.push({ path: `${path}.${field}`, message: 'Expected a number of zero or more' });
+        return null;
+    }
+    return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function renderTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, placeholder: string) => values[placeholder] ?? match);
+}
+
+/*
+Benefits of a data-driven catalog:
+1. Merchandisers add categories and items by editing produce-catalog.json, not code
+2. The file is validated when it is loaded, with the path of every problem reported
+3. Organic premiums and default prices live next to the items they apply to
+
+// Usage example:
+const catalog = loadProduceCatalog(await (await fetch('/produce-catalog.json')).json());
+registerCatalog(produceFactoryRegistry, catalog);
+
+const factory = produceFactoryRegistry.getFactory('citrus') as CatalogProduceFactory;
+const lemon = factory.getCatalogProduce('Lemon', true); // catalog price plus organic premium
+*/
@@ -0,0 +1,243 @@
+import { formatMoney, subscribeLocale, t } from '../../lib/i18n';
+import { ObservableStore } from '../../lib/store';
+import { Produce, ProduceFactory } from './vegetable';
+
+// Search over the produce the factories have created: full text on name and description,
+// facets for category, organic and price range, and sorting.
+// (catalog.ts is the JSON catalog the factories are built from; this indexes what they produced.)
+
+export type SearchSort = 'relevance' | 'name' | 'price-asc' | 'price-desc' | 'newest';
+
+export const SEARCH_SORTS: ReadonlyArray<SearchSort> = ['relevance', 'name', 'price-asc', 'price-desc', 'newest'];
+
+export interface PriceRange {
+    key: string;
+    // Inclusive lower bound, exclusive upper bound; null is unbounded
+    min: number | null;
+    max: number | null;
+}
+
+export const PRICE_RANGES: ReadonlyArray<PriceRange> = [
+    { key: 'under-1', min: null, max: 1 },
+    { key: '1-3', min: 1, max: 3 },
+    { key: '3-5', min: 3, max: 5 },
+    { key: '5-plus', min: 5, max: null },
+];
+
+// "Under $1", "$1 - $3" or "$5 and up", in the current locale's words and currency
+export function describePriceRange(range: PriceRange): string {
+    if (range.min === null) return t('priceRange.under', { max: formatMoney(range.max ?? 0) });
+    if (range.max === null) return t('priceRange.from', { min: formatMoney(range.min) });
+    return t('priceRange.between', { min: formatMoney(range.min), max: formatMoney(range.max) });
+}
+
+export interface SearchQuery {
+    text?: string;
+    // Facet filters: a product matches when it is in any of the selected values
+    categories?: string[];
+    organic?: boolean;
+    priceRanges?: string[];
+    sort?: SearchSort;
+}
+
+export interface SearchHit {
+    id: number;
+    produce: Produce;
+    description: string;
+    // 0 without search text
+    score: number;
+}
+
+export interface FacetValue<T> {
+    value: T;
+    count: number;
+}
+
+// Counts for each facet value, given the text and every other facet's filter,
+// so selecting one category still shows how many products the other categories hold
+export interface SearchFacets {
+    categories: FacetValue<string>[];
+    organic: FacetValue<boolean>[];
+    priceRanges: FacetValue<string>[];
+}
+
+export interface SearchResult {
+    hits: SearchHit[];
+    facets: SearchFacets;
+    // Products in the index, before any filter
+    total: number;
+}
+
+interface IndexedProduce {
+    id: number;
+    produce: Produce;
+    description: string;
+    nameTokens: string[];
+    descriptionTokens: string[];
+}
+
+type FacetName = 'categories' | 'organic' | 'priceRanges';
+
+// Subscribers are told whenever a product is indexed or removed
+export class ProduceSearchIndex extends ObservableStore {
+    private entries: IndexedProduce[] = [];
+    private nextId = 1;
+    // The last result, handed out again while neither the index nor the query has changed
+    private lastSearch: { version: number; key: string; result: SearchResult } | null = null;
+
+    add(produce: Produce): number {
+        const id = this.nextId++;
+        this.entries = [...this.entries, indexEntry(id, produce)];
+        this.notify();
+        return id;
+    }
+
+    // Describes every product again, e.g. after the locale changed
+    reindex(): void {
+        this.entries = this.entries.map(entry => indexEntry(entry.id, entry.produce));
+        this.notify();
+    }
+
+    remove(id: number): boolean {
+        const before = this.entries.length;
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        const removed = this.entries.length < before;
+        if (removed) this.notify();
+        return removed;
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    // Indexed products, oldest first
+    list(): Produce[] {
+        return this.entries.map(entry => entry.produce);
+    }
+
+    size(): number {
+        return this.entries.length;
+    }
+
+    // Asking again with an equal query returns the same result object until the index changes,
+    // so the result can serve as a React snapshot
+    search(query: SearchQuery = {}): SearchResult {
+        const key = JSON.stringify([query.text ?? '', query.categories ?? [], query.organic ?? null, query.priceRanges ?? [], query.sort ?? null]);
+        if (this.lastSearch && this.lastSearch.version === this.getVersion() && this.lastSearch.key === key) {
+            return this.lastSearch.result;
+        }
+        const result = this.runSearch(query);
+        this.lastSearch = { version: this.getVersion(), key, result };
+        return result;
+    }
+
+    private runSearch(query: SearchQuery): SearchResult {
+        const terms = tokenize(query.text ?? '');
+        const scored = this.entries
+            .map(entry => ({ entry, score: scoreEntry(entry, terms) }))
+            .filter(({ score }) => terms.length === 0 || score > 0);
+
+        const passes = (entry: IndexedProduce, skip?: FacetName) =>
+            (skip === 'categories' || matchesCategories(entry, query.categories))
+            && (skip === 'organic' || query.organic === undefined || entry.produce.organic === query.organic)
+            && (skip === 'priceRanges' || matchesPriceRanges(entry, query.priceRanges));
+
+        const hits = scored
+            .filter(({ entry }) => passes(entry))
+            .map(({ entry, score }) => ({ id: entry.id, produce: entry.produce, description: entry.description, score }))
+            .sort(comparator(query.sort ?? (terms.length > 0 ? 'relevance' : 'newest')));
+
+        const facetEntries = (skip: FacetName) => scored.map(({ entry }) => entry).filter(entry => passes(entry, skip));
+        return {
+            hits,
+            facets: {
+                categories: countBy(facetEntries('categories'), entry => entry.produce.category),
+                organic: countBy(facetEntries('organic'), entry => entry.produce.organic),
+                priceRanges: PRICE_RANGES
+                    .map(range => ({
+                        value: range.key,
+                        count: facetEntries('priceRanges').filter(entry => inRange(entry.produce.price, range)).length,
+                    })),
+            },
+            total: this.entries.length,
+        };
+    }
+}
+
+// The index the app uses; every product a factory creates is added to it
+export const produceSearchIndex = new ProduceSearchIndex();
+ProduceFactory.onProduceCreated(produce => produceSearchIndex.add(produce));
+subscribeLocale(() => produceSearchIndex.reindex());
+
+function indexEntry(id: number, produce: Produce): IndexedProduce {
+    const description = produce.getDescription();
+    return { id, produce, description, nameTokens: tokenize(produce.name), descriptionTokens: tokenize(description) };
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Every term has to prefix-match a word; a match in the name counts double, an exact word half again
+function scoreEntry(entry: IndexedProduce, terms: string[]): number {
+    let score = 0;
+    for (const term of terms) {
+        const termScore = Math.max(
+            ...entry.nameTokens.map(token => token === term ? 3 : token.startsWith(term) ? 2 : 0),
+            ...entry.descriptionTokens.map(token => token === term ? 1.5 : token.startsWith(term) ? 1 : 0),
+            0
+        );
+        if (termScore === 0) return 0;
+        score += termScore;
+    }
+    return score;
+}
+
+function matchesCategories(entry: IndexedProduce, categories?: string[]): boolean {
+    return !categories || categories.length === 0 || categories.includes(entry.produce.category);
+}
+
+function matchesPriceRanges(entry: IndexedProduce, keys?: string[]): boolean {
+    if (!keys || keys.length === 0) return true;
+    return PRICE_RANGES.some(range => keys.includes(range.key) && inRange(entry.produce.price, range));
+}
+
+function inRange(price: number, range: PriceRange): boolean {
+    return (range.min === null || price >= range.min) && (range.max === null || price < range.max);
+}
+
+function countBy<T>(entries: IndexedProduce[], key: (entry: IndexedProduce) => T): FacetValue<T>[] {
+    const counts = new Map<T, number>();
+    entries.forEach(entry => counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1));
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+}
+
+function comparator(sort: SearchSort): (a: SearchHit, b: SearchHit) => number {
+    switch (sort) {
+        case 'relevance':
+            return (a, b) => b.score - a.score || b.id - a.id;
+        case 'name':
+            return (a, b) => a.produce.name.localeCompare(b.produce.name) || a.id - b.id;
+        case 'price-asc':
+            return (a, b) => a.produce.price - b.produce.price || a.id - b.id;
+        case 'price-desc':
+            return (a, b) => b.produce.price - a.produce.price || a.id - b.id;
+        case 'newest':
+            return (a, b) => b.id - a.id;
+    }
+}
+
+/*
+Benefits of a search index over created produce:
+1. Products are indexed as the factories create them, so no caller has to remember to
+2. Facet counts come with every result, so filter chips always show what selecting them would leave
+3. Sorting and filtering live in one module instead of in each list that shows products
+
+// Usage example:
+new CruciferousFactory().getProduce('Broccoli', 2.79, true);
+const { hits, facets } = produceSearchIndex.search({ text: 'brocc', organic: true, sort: 'price-asc' });
+hits[0].produce.name;  // "Broccoli"
+facets.categories;     // [{ value: 'cruciferous', count: 1 }]
+*/
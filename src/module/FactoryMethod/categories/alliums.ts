@@ -0,0 +1,26 @@
+import { Produce, ProduceFactory } from '../vegetable';
+import { ProduceAttributes } from '../attributes';
+import { ProduceFactoryRegistration } from '../registry';
+
+// Concrete Product
+class Allium extends Produce {
+    getDescription(): string {
+        return this.describe('produce.allium');
+    }
+}
+
+// Concrete Creator
+export class AlliumFactory extends ProduceFactory {
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new Allium(name, price, 'allium', organic, attributes);
+    }
+}
+
+const registration: ProduceFactoryRegistration = {
+    key: 'allium',
+    displayName: 'Allium Factory',
+    create: () => new AlliumFactory(),
+    metadata: { description: 'Onions, garlic and leeks', examples: ['Onion', 'Garlic', 'Leek'] },
+};
+
+export default registration;
@@ -0,0 +1,26 @@
+import { Produce, ProduceFactory } from '../vegetable';
+import { ProduceAttributes } from '../attributes';
+import { ProduceFactoryRegistration } from '../registry';
+
+// Concrete Product
+class Herb extends Produce {
+    getDescription(): string {
+        return this.describe('produce.herb');
+    }
+}
+
+// Concrete Creator
+export class HerbFactory extends ProduceFactory {
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new Herb(name, price, 'herb', organic, attributes);
+    }
+}
+
+const registration: ProduceFactoryRegistration = {
+    key: 'herb',
+    displayName: 'Herb Factory',
+    create: () => new HerbFactory(),
+    metadata: { description: 'Fresh culinary herbs', examples: ['Basil', 'Coriander', 'Mint'] },
+};
+
+export default registration;
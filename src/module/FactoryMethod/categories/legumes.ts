@@ -0,0 +1,30 @@
+import { Produce, ProduceFactory } from '../vegetable';
+import { ProduceAttributes } from '../attributes';
+import { ProduceFactoryRegistration } from '../registry';
+
+// Concrete Product
+class Legume extends Produce {
+    getDescription(): string {
+        return this.describe('produce.legume');
+    }
+}
+
+// Concrete Creator
+export class LegumeFactory extends ProduceFactory {
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new Legume(name, price, 'legume', organic, attributes);
+    }
+
+    getDefaultAttributes(): Partial<ProduceAttributes> {
+        return { highlights: ['Source of plant protein', 'High in fiber'] };
+    }
+}
+
+const registration: ProduceFactoryRegistration = {
+    key: 'legume',
+    displayName: 'Legume Factory',
+    create: () => new LegumeFactory(),
+    metadata: { description: 'Beans, peas and lentils', examples: ['Green Bean', 'Snap Pea', 'Edamame'] },
+};
+
+export default registration;
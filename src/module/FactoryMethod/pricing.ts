@@ -0,0 +1,133 @@
+import { ProduceAttributes, isInSeason } from './attributes';
+
+// Pricing strategies turn the base price a product is created with into the price it sells at.
+// A factory applies its strategies in order, so rounding belongs last.
+
+export interface PricingContext {
+    name: string;
+    organic: boolean;
+    attributes: ProduceAttributes;
+    // 1 (January) to 12 (December)
+    month: number;
+}
+
+export interface PricingStrategy {
+    // Short label shown next to the adjustment, e.g. "Organic +20%"
+    label: string;
+    apply(price: number, context: PricingContext): number;
+}
+
+export interface PriceAdjustment {
+    label: string;
+    before: number;
+    after: number;
+}
+
+export interface PriceQuote {
+    basePrice: number;
+    finalPrice: number;
+    // Only the strategies that changed the price
+    adjustments: PriceAdjustment[];
+}
+
+export class InvalidPricingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidPricingError';
+    }
+}
+
+// Prices never drop below zero, however the strategies combine
+export function applyPricing(strategies: ReadonlyArray<PricingStrategy>, basePrice: number, context: PricingContext): PriceQuote {
+    const adjustments: PriceAdjustment[] = [];
+    const finalPrice = strategies.reduce((price, strategy) => {
+        const after = Math.max(0, roundMoney(strategy.apply(price, context)));
+        if (after !== price) adjustments.push({ label: strategy.label, before: price, after });
+        return after;
+    }, roundMoney(basePrice));
+    return { basePrice: roundMoney(basePrice), finalPrice, adjustments };
+}
+
+// Organic products cost the given percentage more
+export function organicPremium(percent: number): PricingStrategy {
+    requirePercent(percent, 'Organic premium');
+    return {
+        label: `Organic +${percent}%`,
+        apply: (price, { organic }) => organic ? price * (100 + percent) / 100 : price,
+    };
+}
+
+// Marks up products during the given months, or by default whenever they are out of season
+export function seasonalMarkup(percent: number, months?: ReadonlyArray<number>): PricingStrategy {
+    requirePercent(percent, 'Seasonal markup');
+    return {
+        label: months ? `Seasonal +${percent}%` : `Out of season +${percent}%`,
+        apply: (price, { attributes, month }) => {
+            const applies = months ? months.includes(month) : !isInSeason(attributes, month);
+            return applies ? price * (100 + percent) / 100 : price;
+        },
+    };
+}
+
+// Marks down every product, or only the named ones
+export function clearanceMarkdown(percent: number, names?: ReadonlyArray<string>): PricingStrategy {
+    requirePercent(percent, 'Clearance markdown', 100);
+    const cleared = names?.map(name => name.toLowerCase());
+    return {
+        label: `Clearance -${percent}%`,
+        apply: (price, { name }) => !cleared || cleared.includes(name.toLowerCase()) ? price * (100 - percent) / 100 : price,
+    };
+}
+
+// Rounds to the nearest price with the given cents, e.g. 0.99 turns 2.40 into 1.99 and 2.60 into 2.99;
+// a free product stays free
+export function roundToEnding(ending: number): PricingStrategy {
+    if (!(Number.isFinite(ending) && ending >= 0 && ending < 1)) {
+        throw new InvalidPricingError(`Price ending must be cents below 1, e.g. 0.99, not ${ending}`);
+    }
+    return {
+        label: `Ends in .${Math.round(ending * 100).toString().padStart(2, '0')}`,
+        apply: price => price <= 0 ? price : Math.max(0, Math.round(price - ending)) + ending,
+    };
+}
+
+// A catalog category's pricing: its organic premium, then its price ending if it has one
+export function categoryPricing(premium: number, priceEnding?: number): PricingStrategy[] {
+    return [organicPremium(premium), ...(priceEnding !== undefined ? [roundToEnding(priceEnding)] : [])];
+}
+
+// Base prices must be a number of zero or more
+export function validateBasePrice(price: number): void {
+    if (!(Number.isFinite(price) && price >= 0)) {
+        throw new InvalidPricingError(`Base price must be a number of zero or more, not ${price}`);
+    }
+}
+
+function requirePercent(percent: number, what: string, max: number = Infinity): void {
+    if (!(Number.isFinite(percent) && percent >= 0 && percent <= max)) {
+        const range = max === Infinity ? 'zero or more' : `from 0 to ${max}`;
+        throw new InvalidPricingError(`${what} must be a percentage ${range}, not ${percent}`);
+    }
+}
+
+function roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/*
+Benefits of pricing strategies:
+1. Price rules live outside the product classes, so a product never prices itself
+2. Factories are configured with any mix of strategies without new subclasses
+3. Every quote keeps the base price and each adjustment, so a shelf label can explain the price
+
+// Usage example:
+const fruitFactory = new FruitFactory();
+fruitFactory.setPricing([organicPremium(20), clearanceMarkdown(30, ['Banana']), roundToEnding(0.99)]);
+const banana = fruitFactory.getProduce('Banana', 2.49, true);
+banana.price;             // 1.99 (2.49 +20% = 2.99, -30% = 2.09, rounded to .99)
+banana.pricing.basePrice; // 2.49
+
+// A one-off price for a single product; the factory keeps its strategies
+const promo = fruitFactory.getProduce('Banana', 2.49, false, {}, [clearanceMarkdown(50)]);
+promo.price;              // 1.25
+*/
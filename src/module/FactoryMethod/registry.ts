@@ -0,0 +1,61 @@
+import { FactoryRegistration, FactoryRegistry } from '../../lib/registry';
+import { CruciferousFactory, FruitFactory, LeafyGreenFactory, ProduceFactory, RootVegetableFactory } from './vegetable';
+import { loadProduceCatalog, registerCatalog } from './catalog';
+import { produceSkuIndex } from './sku';
+import bundledCatalog from './produce-catalog.json';
+
+// Registry of produce creators: each category registers its factory under a key,
+// so callers pick a factory by key instead of knowing every concrete creator class
+
+export interface ProduceFactoryMetadata {
+    description: string;
+    // Produce names that suit the category, e.g. for placeholders
+    examples: string[];
+    tags?: string[];
+}
+
+export type ProduceFactoryRegistration = FactoryRegistration<ProduceFactory, ProduceFactoryMetadata>;
+
+export class ProduceFactoryRegistry extends FactoryRegistry<ProduceFactory, ProduceFactoryMetadata> {
+    constructor() {
+        super('produce factory');
+    }
+}
+
+// Every module in ./categories default-exports a registration; dropping a new file
+// there is all it takes to add a category
+const pluggedInRegistrations = Object.values(
+    import.meta.glob<ProduceFactoryRegistration>('./categories/*.ts', { eager: true, import: 'default' })
+);
+
+// The registry the app uses: the categories of the bundled catalog, then the plugged-in ones.
+// An invalid catalog file fails here, at load time, rather than when a product is created.
+// The compiled creators supply the product classes of their catalog categories; their defaults
+// and prices are the catalog's, so there is one place to change them.
+export const produceFactoryRegistry = new ProduceFactoryRegistry();
+registerCatalog(produceFactoryRegistry, loadProduceCatalog(bundledCatalog), produceSkuIndex, {
+    'leafy-green': new LeafyGreenFactory(),
+    cruciferous: new CruciferousFactory(),
+    root: new RootVegetableFactory(),
+    fruit: new FruitFactory(),
+});
+pluggedInRegistrations.forEach(registration => produceFactoryRegistry.register(registration));
+
+/*
+Benefits of the registry:
+1. Callers look factories up by key and never import concrete creator classes
+2. New categories plug in by registering, without editing existing creators or the demo
+   (data-only categories go in produce-catalog.json, ones with their own class in ./categories)
+3. Display names and metadata travel with the factory, so pickers build themselves
+
+// Usage example:
+produceFactoryRegistry.register({
+    key: 'sprout',
+    displayName: 'Sprout Factory',
+    create: () => new SproutFactory(),
+    metadata: { description: 'Crunchy fresh sprouts', examples: ['Alfalfa'] },
+});
+
+const factory = produceFactoryRegistry.getFactory('sprout');
+const alfalfa = factory.getProduce('Alfalfa', 2.49, true);
+*/
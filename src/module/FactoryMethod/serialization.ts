@@ -0,0 +1,179 @@
+import { Either, isLeft, left, right } from 'fp-ts/Either';
+import { ProduceAttributes, mergeAttributes } from './attributes';
+import { CatalogError, validateAttributes } from './catalog';
+import { PriceAdjustment, PriceQuote } from './pricing';
+import { ProduceFactoryRegistry, produceFactoryRegistry } from './registry';
+import { Produce, ProduceFactory } from './vegetable';
+
+// Plain JSON form of a Produce, for storage and message channels.
+// The category is the discriminator: every creator stamps its products with the registry key it
+// is registered under (compiled creators such as LeafyGreenFactory included), and hydration asks
+// that factory to rebuild the product, so the result is the same concrete class with the same
+// getDescription().
+
+export const PRODUCE_FORMAT_VERSION = 1;
+
+export interface SerializedProduce {
+    format: typeof PRODUCE_FORMAT_VERSION;
+    category: string;
+    name: string;
+    organic: boolean;
+    sku: string;
+    pricing: PriceQuote;
+    attributes: ProduceAttributes;
+}
+
+// Finds the factory that creates a category; the registry's factories by default, where the
+// built-in categories create their compiled classes (LeafyGreen, Cruciferous, ...)
+export type ProduceFactoryLookup = (category: string) => ProduceFactory | undefined;
+
+export function registryLookup(registry: ProduceFactoryRegistry = produceFactoryRegistry): ProduceFactoryLookup {
+    return category => registry.has(category) ? registry.getFactory(category) : undefined;
+}
+
+export function serializeProduce(produce: Produce): SerializedProduce {
+    return {
+        format: PRODUCE_FORMAT_VERSION,
+        category: produce.category,
+        name: produce.name,
+        organic: produce.organic,
+        sku: produce.sku,
+        pricing: {
+            ...produce.pricing,
+            adjustments: produce.pricing.adjustments.map(adjustment => ({ ...adjustment })),
+        },
+        attributes: mergeAttributes(produce.attributes),
+    };
+}
+
+// Checks untrusted data and rebuilds the product through its category's factory
+export function hydrateProduce(
+    data: unknown,
+    lookup: ProduceFactoryLookup = registryLookup()
+): Either<CatalogError[], Produce> {
+    const validated = validateSerializedProduce(data);
+    if (isLeft(validated)) return validated;
+
+    const serialized = validated.right;
+    const factory = lookup(serialized.category);
+    if (!factory) {
+        return left([{ path: 'category', message: `No produce factory is registered as "${serialized.category}"` }]);
+    }
+    // Checked before the factory registers anything, so rejected data leaves no trace
+    let errors: CatalogError[] = [];
+    const produce = factory.restoreProduce(serialized.name, serialized.pricing, serialized.organic, serialized.attributes, candidate => {
+        errors = checkRestored(candidate, serialized);
+        return errors.length === 0;
+    });
+    return produce ? right(produce) : left(errors);
+}
+
+export function stringifyProduce(produce: Produce | Produce[]): string {
+    return JSON.stringify(Array.isArray(produce) ? produce.map(serializeProduce) : serializeProduce(produce));
+}
+
+// Parses what stringifyProduce wrote; a list hydrates only if every entry does
+export function parseProduce(text: string, lookup?: ProduceFactoryLookup): Either<CatalogError[], Produce[]> {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return left([{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]);
+    }
+
+    const results = (Array.isArray(data) ? data : [data]).map((value, index) => {
+        const result = hydrateProduce(value, lookup);
+        const prefix = Array.isArray(data) ? `[${index}]` : '';
+        return isLeft(result)
+            ? left(result.left.map(error => ({ ...error, path: [prefix, error.path].filter(Boolean).join('.') })))
+            : result;
+    });
+    const errors = results.flatMap(result => isLeft(result) ? result.left : []);
+    return errors.length > 0 ? left(errors) : right(results.flatMap(result => isLeft(result) ? [] : [result.right]));
+}
+
+export function validateSerializedProduce(data: unknown): Either<CatalogError[], SerializedProduce> {
+    if (!isRecord(data)) return left([{ path: '', message: 'Expected a serialized produce object' }]);
+    if (data.format !== PRODUCE_FORMAT_VERSION) {
+        return left([{ path: 'format', message: `Unsupported format ${String(data.format)}, expected ${PRODUCE_FORMAT_VERSION}` }]);
+    }
+
+    const errors: CatalogError[] = [];
+    ['category', 'name', 'sku'].forEach(field => {
+        if (typeof data[field] !== 'string' || (data[field] as string).trim() === '') {
+            errors.push({ path: field, message: 'Expected a non-empty string' });
+        }
+    });
+    if (typeof data.organic !== 'boolean') errors.push({ path: 'organic', message: 'Expected true or false' });
+    const pricing = validatePricing(data.pricing, errors);
+    const attributes = validateAttributes(data.attributes, 'attributes', errors);
+    if (errors.length > 0) return left(errors);
+
+    return right({
+        format: PRODUCE_FORMAT_VERSION,
+        category: data.category as string,
+        name: data.name as string,
+        organic: data.organic as boolean,
+        sku: data.sku as string,
+        pricing: pricing!,
+        attributes: mergeAttributes(attributes!),
+    });
+}
+
+function checkRestored(produce: Produce, serialized: SerializedProduce): CatalogError[] {
+    if (produce.category !== serialized.category) {
+        return [{ path: 'category', message: `The factory for "${serialized.category}" creates "${produce.category}" produce` }];
+    }
+    if (produce.sku !== serialized.sku) {
+        return [{ path: 'sku', message: `Expected SKU ${produce.sku} for this product, got ${serialized.sku}` }];
+    }
+    return [];
+}
+
+function validatePricing(value: unknown, errors: CatalogError[]): PriceQuote | null {
+    if (!isRecord(value)) {
+        errors.push({ path: 'pricing', message: 'Expected an object with basePrice, finalPrice and adjustments' });
+        return null;
+    }
+    const before = errors.length;
+    (['basePrice', 'finalPrice'] as const).forEach(field => {
+        if (!isAmount(value[field])) errors.push({ path: `pricing.${field}`, message: 'Expected a number of zero or more' });
+    });
+    const adjustments = Array.isArray(value.adjustments) ? value.adjustments : null;
+    if (!adjustments || !adjustments.every(isAdjustment)) {
+        errors.push({ path: 'pricing.adjustments', message: 'Expected a list of { label, before, after }' });
+    }
+    if (errors.length > before) return null;
+    return {
+        basePrice: value.basePrice as number,
+        finalPrice: value.finalPrice as number,
+        adjustments: (adjustments as PriceAdjustment[]).map(({ label, before, after }) => ({ label, before, after })),
+    };
+}
+
+function isAdjustment(value: unknown): value is PriceAdjustment {
+    return isRecord(value) && typeof value.label === 'string' && isAmount(value.before) && isAmount(value.after);
+}
+
+function isAmount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/*
+Benefits of serializing through the factories:
+1. JSON stays plain data; behaviour such as getDescription() comes back with the concrete class
+2. The category decides which factory rebuilds the product, so new categories need no changes here
+3. Untrusted input is validated before any product is created
+
+// Usage example:
+const json = stringifyProduce(new CruciferousFactory().getProduce('Broccoli', 2.79));
+const restored = parseProduce(json);
+// right([Cruciferous]) - rebuilt by the registry's 'cruciferous' factory; getDescription() matches the original
+
+// A lookup of your own, e.g. for factories that are not registered
+parseProduce(json, category => category === 'cruciferous' ? new CruciferousFactory() : undefined);
+*/
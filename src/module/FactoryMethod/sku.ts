@@ -0,0 +1,98 @@
+// Stock keeping units for produce. The SKU is a 13-digit EAN-13 code derived from the category,
+// name and organic flag, so the same product always gets the same code, in any session.
+//
+//   2       in-store prefix: EAN-13 codes starting with 2 are reserved for the retailer's own use
+//   9 / 0   organic or conventional, as the leading 9 marks organic on PLU stickers
+//   10      digits identifying the category and name
+//   1       check digit
+
+export interface ProduceDefinition {
+    sku: string;
+    category: string;
+    name: string;
+    organic: boolean;
+}
+
+export class SkuCollisionError extends Error {
+    constructor(public readonly sku: string, existing: ProduceDefinition, incoming: ProduceDefinition) {
+        super(`SKU ${sku} is already used by ${existing.name} (${existing.category}), not ${incoming.name} (${incoming.category})`);
+        this.name = 'SkuCollisionError';
+    }
+}
+
+export function generateSku(category: string, name: string, organic: boolean): string {
+    const body = `2${organic ? '9' : '0'}${hashDigits(`${normalize(category)}|${normalize(name)}`)}`;
+    return `${body}${checkDigit(body)}`;
+}
+
+// EAN-13 check digit: digits are weighted 1, 3, 1, 3 ... from the left; the check digit tops the sum up to a multiple of 10
+export function checkDigit(digits: string): number {
+    const sum = Array.from(digits).reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    return (10 - (sum % 10)) % 10;
+}
+
+// True for 13 digits whose last digit is the right check digit
+export function isValidSku(sku: string): boolean {
+    return /^\d{13}$/.test(sku) && checkDigit(sku.slice(0, 12)) === Number(sku[12]);
+}
+
+// Product definitions by SKU, so a scanned or stored code leads back to what it stands for
+export class ProduceSkuIndex {
+    private definitions = new Map<string, ProduceDefinition>();
+
+    // Registering the same product again is a no-op; a different product with the same SKU throws
+    register(category: string, name: string, organic: boolean): ProduceDefinition {
+        const definition = { sku: generateSku(category, name, organic), category, name: name.trim(), organic };
+        const existing = this.definitions.get(definition.sku);
+        if (existing) {
+            if (normalize(existing.category) !== normalize(category) || normalize(existing.name) !== normalize(name)) {
+                throw new SkuCollisionError(definition.sku, existing, definition);
+            }
+            return { ...existing };
+        }
+        this.definitions.set(definition.sku, definition);
+        return { ...definition };
+    }
+
+    lookup(sku: string): ProduceDefinition | undefined {
+        const definition = this.definitions.get(sku.trim());
+        return definition && { ...definition };
+    }
+
+    list(): ProduceDefinition[] {
+        return Array.from(this.definitions.values(), definition => ({ ...definition }));
+    }
+}
+
+// Every product the factories created or the catalog lists
+export const produceSkuIndex = new ProduceSkuIndex();
+
+// "Leafy Green" and "leafy-green" are the same category, " Baby  Spinach" and "baby spinach" the same name
+// Case, spacing and punctuation do not matter; letters of every script (accents included) do,
+// so "Jalapeño" and "白菜" keep codes of their own
+function normalize(text: string): string {
+    return text.trim().normalize('NFKD').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-');
+}
+
+// FNV-1a, reduced to 10 decimal digits
+function hashDigits(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString().padStart(10, '0');
+}
+
+/*
+Benefits of derived SKUs:
+1. No counter or database is needed: the same product gets the same code everywhere
+2. The check digit catches mistyped and misread codes before they reach the inventory
+3. Inventory can key stock by SKU, so organic and conventional Spinach are never mixed up
+
+// Usage example:
+const spinach = new LeafyGreenFactory().getProduce('Spinach', 3.99, true);
+spinach.sku;                        // "29..." - 13 digits, organic
+isValidSku(spinach.sku);            // true
+produceSkuIndex.lookup(spinach.sku); // { category: 'leafy-green', name: 'Spinach', organic: true, ... }
+*/
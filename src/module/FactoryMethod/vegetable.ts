@@ -1,78 +1,242 @@
+import { ProduceAttributes, isInSeason, mergeAttributes, summarizeAttributes } from './attributes';
+import { formatMoney, t } from '../../lib/i18n';
+import { MessageKey } from '../../lib/messages';
+import { Logger, noopLogger } from '../../lib/logger';
+import { generateSku, produceSkuIndex } from './sku';
+import { PriceQuote, PricingStrategy, applyPricing, categoryPricing, organicPremium, validateBasePrice } from './pricing';
+import bundledCatalog from './produce-catalog.json';
+
 // Abstract Product
-abstract class Produce {
+export abstract class Produce {
+    public readonly attributes: ProduceAttributes;
+    // EAN-13 code derived from category, name and organic flag - equal for equal products
+    public readonly sku: string;
+    // How the price came about; the factory that priced the product fills this in
+    public pricing: PriceQuote;
+
     constructor(
         public readonly name: string, 
         public readonly price: number, 
         public readonly category: string,
-        public readonly organic: boolean = false
-    ) {}
+        public readonly organic: boolean = false,
+        attributes: Partial<ProduceAttributes> = {}
+    ) {
+        this.attributes = mergeAttributes(attributes);
+        this.sku = generateSku(category, name, organic);
+        this.pricing = { basePrice: price, finalPrice: price, adjustments: [] };
+    }
     
     abstract getDescription(): string;
+
+    // Month is 1 (January) to 12 (December)
+    isInSeason(month: number = new Date().getMonth() + 1): boolean {
+        return isInSeason(this.attributes, month);
+    }
+
+    // " - High in fiber; from Spain" when there is anything to tell, otherwise nothing
+    protected attributeSummary(): string {
+        const summary = summarizeAttributes(this.attributes);
+        return summary ? ` - ${summary}` : '';
+    }
+
+    // "Organic Spinach: <text> - <summary> ($3.99)", worded and priced for the current locale
+    protected describe(text: MessageKey): string {
+        return t('produce.description', {
+            name: this.organic ? t('produce.organicName', { name: this.name }) : this.name,
+            text: t(text),
+            summary: this.attributeSummary(),
+            price: formatMoney(this.price),
+        });
+    }
 }
 
 // Concrete Products
 class LeafyGreen extends Produce {
     getDescription(): string {
-        const organicLabel = this.organic ? "Organic " : "";
-        return `${organicLabel}${this.name}: Fresh leafy green vegetable ($${this.price.toFixed(2)})`;
+        return this.describe('produce.leafyGreen');
     }
 }
 
 class Cruciferous extends Produce {
     getDescription(): string {
-        const organicLabel = this.organic ? "Organic " : "";
-        return `${organicLabel}${this.name}: Nutrient-dense cruciferous vegetable ($${this.price.toFixed(2)})`;
+        return this.describe('produce.cruciferous');
     }
 }
 
 class RootVegetable extends Produce {
     getDescription(): string {
-        const organicLabel = this.organic ? "Organic " : "";
-        return `${organicLabel}${this.name}: Hearty root vegetable ($${this.price.toFixed(2)})`;
+        return this.describe('produce.root');
     }
 }
 
 class FruitProduce extends Produce {
     getDescription(): string {
-        const organicLabel = this.organic ? "Organic " : "";
-        return `${organicLabel}${this.name}: Sweet and fresh fruit ($${this.price.toFixed(2)})`;
+        return this.describe('produce.fruit');
     }
 }
 
+// Percentage organic produce costs on top of the base price, unless a factory prices otherwise
+export const DEFAULT_ORGANIC_PREMIUM = 20;
+
 // Abstract Creator
 export abstract class ProduceFactory {
-    abstract createProduce(name: string, price: number, organic: boolean): Produce;
+    // Shared by every factory; nothing is logged until one is set
+    private static logger: Logger = noopLogger;
+    private static createdListeners = new Set<(produce: Produce) => void>();
+    private pricing: PricingStrategy[] | null = null;
+
+    static setLogger(logger: Logger): void {
+        ProduceFactory.logger = logger;
+    }
+
+    // Called with every product any factory creates (restored products are not new); returns an unsubscribe function
+    static onProduceCreated(listener: (produce: Produce) => void): () => void {
+        ProduceFactory.createdListeners.add(listener);
+        return () => {
+            ProduceFactory.createdListeners.delete(listener);
+        };
+    }
+
+    abstract createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce;
+
+    // Attributes every product of the category starts with
+    getDefaultAttributes(): Partial<ProduceAttributes> {
+        return {};
+    }
     
-    // This is a template method that uses the factory method
-    getProduce(name: string, price: number, organic: boolean = false): Produce {
-        const produce = this.createProduce(name, price, organic);
-        console.log(`Created: ${produce.getDescription()}`);
+    // Strategies the category prices with until setPricing replaces them
+    getDefaultPricing(): PricingStrategy[] {
+        return [organicPremium(DEFAULT_ORGANIC_PREMIUM)];
+    }
+
+    getPricing(): PricingStrategy[] {
+        return [...(this.pricing ?? this.getDefaultPricing())];
+    }
+
+    // Replaces the strategies applied to the base price; pass null to go back to the defaults
+    setPricing(strategies: PricingStrategy[] | null): void {
+        this.pricing = strategies && [...strategies];
+    }
+
+    // What a product would sell for, without creating it. Strategies passed here apply to this
+    // quote only and leave the factory's own pricing alone. Throws InvalidPricingError for a
+    // negative or non-numeric price.
+    quotePrice(name: string, price: number, organic: boolean = false, attributes: Partial<ProduceAttributes> = {}, month: number = new Date().getMonth() + 1, strategies: PricingStrategy[] = this.getPricing()): PriceQuote {
+        validateBasePrice(price);
+        const merged = mergeAttributes(this.getDefaultAttributes(), attributes);
+        return applyPricing(strategies, price, { name, organic, attributes: merged, month });
+    }
+
+    // Rebuilds a product created earlier, e.g. one read back from JSON. Its price and attributes are
+    // taken as stored: neither the pricing strategies nor the category defaults are applied again.
+    // accept sees the product before its SKU is registered; when it returns false nothing is
+    // registered and null is returned.
+    restoreProduce(
+        name: string,
+        pricing: PriceQuote,
+        organic: boolean,
+        attributes: ProduceAttributes,
+        accept: (produce: Produce) => boolean = () => true
+    ): Produce | null {
+        const produce = this.createProduce(name, pricing.finalPrice, organic, attributes);
+        produce.pricing = { ...pricing, adjustments: pricing.adjustments.map(adjustment => ({ ...adjustment })) };
+        if (!accept(produce)) return null;
+        produceSkuIndex.register(produce.category, produce.name, produce.organic);
+        return produce;
+    }
+
+    // This is a template method that uses the factory method; price is the base price before the strategies.
+    // Pass strategies to price this one product differently, e.g. for a one-off promotion.
+    getProduce(name: string, price: number, organic: boolean = false, attributes: Partial<ProduceAttributes> = {}, strategies?: PricingStrategy[]): Produce {
+        const quote = this.quotePrice(name, price, organic, attributes, undefined, strategies);
+        const produce = this.createProduce(name, quote.finalPrice, organic, mergeAttributes(this.getDefaultAttributes(), attributes));
+        produce.pricing = quote;
+        produceSkuIndex.register(produce.category, produce.name, produce.organic);
+        ProduceFactory.logger.child('factory-method').info(`Created: ${produce.getDescription()}`, {
+            name: produce.name,
+            sku: produce.sku,
+            category: produce.category,
+            organic: produce.organic,
+            basePrice: quote.basePrice,
+            finalPrice: quote.finalPrice,
+        });
+        ProduceFactory.createdListeners.forEach(listener => listener(produce));
         return produce;
     }
 }
 
+// What the compiled creators below take from their category in produce-catalog.json
+interface BundledCategory {
+    key: string;
+    organicPremium: number;
+    priceEnding?: number;
+    defaults?: Partial<ProduceAttributes>;
+}
+
+const bundledCategories = bundledCatalog.categories as ReadonlyArray<BundledCategory>;
+
+// Base of the compiled creators: category strings are catalog keys, and the defaults and pricing
+// are that category's in produce-catalog.json, so a product comes out the same whether the creator
+// is used on its own or through produceFactoryRegistry
+abstract class BundledCategoryFactory extends ProduceFactory {
+    private readonly bundled: BundledCategory;
+
+    constructor(protected readonly category: string) {
+        super();
+        const bundled = bundledCategories.find(candidate => candidate.key === category);
+        if (!bundled) {
+            throw new Error(`produce-catalog.json has no "${category}" category`);
+        }
+        this.bundled = bundled;
+    }
+
+    getDefaultAttributes(): Partial<ProduceAttributes> {
+        return this.bundled.defaults ?? {};
+    }
+
+    getDefaultPricing(): PricingStrategy[] {
+        return categoryPricing(this.bundled.organicPremium, this.bundled.priceEnding);
+    }
+}
+
 // Concrete Creators
-export class LeafyGreenFactory extends ProduceFactory {
-    createProduce(name: string, price: number, organic: boolean): Produce {
-        return new LeafyGreen(name, price, 'leafy green', organic);
+export class LeafyGreenFactory extends BundledCategoryFactory {
+    constructor() {
+        super('leafy-green');
+    }
+
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new LeafyGreen(name, price, this.category, organic, attributes);
     }
 }
 
-export class CruciferousFactory extends ProduceFactory {
-    createProduce(name: string, price: number, organic: boolean): Produce {
-        return new Cruciferous(name, price, 'cruciferous', organic);
+export class CruciferousFactory extends BundledCategoryFactory {
+    constructor() {
+        super('cruciferous');
+    }
+
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new Cruciferous(name, price, this.category, organic, attributes);
     }
 }
 
-export class RootVegetableFactory extends ProduceFactory {
-    createProduce(name: string, price: number, organic: boolean): Produce {
-        return new RootVegetable(name, price, 'root', organic);
+export class RootVegetableFactory extends BundledCategoryFactory {
+    constructor() {
+        super('root');
+    }
+
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new RootVegetable(name, price, this.category, organic, attributes);
     }
 }
 
-export class FruitFactory extends ProduceFactory {
-    createProduce(name: string, price: number, organic: boolean): Produce {
-        return new FruitProduce(name, price, 'fruit', organic);
+export class FruitFactory extends BundledCategoryFactory {
+    constructor() {
+        super('fruit');
+    }
+
+    createProduce(name: string, price: number, organic: boolean, attributes?: Partial<ProduceAttributes>): Produce {
+        return new FruitProduce(name, price, this.category, organic, attributes);
     }
 }
 
@@ -83,6 +247,11 @@ Benefits of Factory Method pattern:
 3. No complex conditional logic, making code more maintainable
 4. Variations (organic/conventional) are handled through parameters, not separate conditions
 5. Easy to add new attributes or behavior to specific produce types
+6. Category defaults (nutrition, highlights) are applied once, in the template method
+7. Pricing strategies (organic premium, markups, rounding) are applied there too, so every product is priced alike
+8. Created products are reported to an injected logger, not printed to the console
+9. Every product carries a deterministic SKU that leads back to its definition
+10. Other modules, such as the search index, hear about every product without wrapping the factories
 
 // Usage example:
 const leafyFactory = new LeafyGreenFactory();
@@ -91,6 +260,13 @@ const organicSpinach = leafyFactory.getProduce('Spinach', 5.99, true);
 
 const fruitFactory = new FruitFactory();
 const apple = fruitFactory.getProduce('Apple', 0.99);
-const organicApple = fruitFactory.getProduce('Apple', 1.99, true);
+const organicApple = fruitFactory.getProduce('Apple', 0.99, true); // $1.99: the fruit category's 50% premium, rounded to .99
+
+// The catalog's category defaults (highlights, nutrition) apply with or without the registry
+const broccoli = produceFactoryRegistry.getFactory('cruciferous').getProduce('Broccoli', 2.79, false, {
+    countryOfOrigin: 'Spain',
+    inSeasonMonths: [6, 7, 8, 9, 10],
+});
+broccoli.getDescription(); // "... cruciferous vegetable - High in fiber; Rich in vitamin C; from Spain; in season Jun-Oct ($2.79)"
 */
 
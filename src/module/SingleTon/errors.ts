@@ -0,0 +1,118 @@
+import { Either } from "fp-ts/Either";
+import { Reservation } from "./reservations";
+import { Unit, formatQuantity } from "./units";
+
+// Why an inventory operation was refused. Operations return an Either instead of a bare
+// boolean: Left carries one of these errors, Right whatever the operation recorded.
+
+export interface InvalidName {
+  type: "invalid-name";
+  name: string;
+}
+
+export interface InvalidQuantity {
+  type: "invalid-quantity";
+  quantity: number;
+}
+
+export interface InvalidPrice {
+  type: "invalid-price";
+  field: "price" | "unitCost";
+  price: number;
+}
+
+export interface UnknownItem {
+  type: "unknown-item";
+  name: string;
+}
+
+export interface UnknownLocation {
+  type: "unknown-location";
+  location: string;
+}
+
+export interface IncompatibleUnit {
+  type: "incompatible-unit";
+  name: string;
+  unit: Unit;
+  baseUnit: Unit;
+}
+
+// Quantities are in the item's base unit
+export interface InsufficientStock {
+  type: "insufficient-stock";
+  name: string;
+  requested: number;
+  available: number;
+  unit: Unit;
+  location?: string;
+}
+
+export interface SameLocation {
+  type: "same-location";
+  location: string;
+}
+
+export interface UnknownReservation {
+  type: "unknown-reservation";
+  reservationId: string;
+}
+
+export interface ReservationExpired {
+  type: "reservation-expired";
+  reservation: Reservation;
+}
+
+export type InventoryError =
+  | InvalidName
+  | InvalidQuantity
+  | InvalidPrice
+  | UnknownItem
+  | UnknownLocation
+  | IncompatibleUnit
+  | InsufficientStock
+  | SameLocation
+  | UnknownReservation
+  | ReservationExpired;
+
+export type InventoryErrorType = InventoryError["type"];
+
+export type InventoryResult<T> = Either<InventoryError, T>;
+
+export function validateName(name: string): InvalidName | null {
+  return name.trim() === "" ? { type: "invalid-name", name } : null;
+}
+
+// Quantities may be fractional (weights), but must be positive
+export function validateQuantity(quantity: number): InvalidQuantity | null {
+  return Number.isFinite(quantity) && quantity > 0 ? null : { type: "invalid-quantity", quantity };
+}
+
+export function validatePrice(price: number, field: InvalidPrice["field"] = "price"): InvalidPrice | null {
+  return Number.isFinite(price) && price >= 0 ? null : { type: "invalid-price", field, price };
+}
+
+export function describeInventoryError(error: InventoryError): string {
+  switch (error.type) {
+    case "invalid-name":
+      return "an item name is required";
+    case "invalid-quantity":
+      return `${error.quantity} is not a valid quantity - it must be a number above zero`;
+    case "invalid-price":
+      return `${error.price} is not a valid ${error.field === "unitCost" ? "unit cost" : "price"} - it must be a number of zero or more`;
+    case "unknown-item":
+      return `${error.name} has never been stocked`;
+    case "unknown-location":
+      return `there is no location called ${error.location}`;
+    case "incompatible-unit":
+      return `${error.name} is counted in ${error.baseUnit} and cannot be converted from ${error.unit}`;
+    case "insufficient-stock":
+      return `insufficient stock of ${error.name}${error.location ? ` at ${error.location}` : ""} (${formatQuantity(error.requested, error.unit)} requested, ${formatQuantity(error.available, error.unit)} available)`;
+    case "same-location":
+      return `stock is already at ${error.location}`;
+    case "unknown-reservation":
+      return "the hold no longer exists";
+    case "reservation-expired":
+      return `the hold on ${error.reservation.quantity} ${error.reservation.name}(s) has expired`;
+  }
+}
@@ -0,0 +1,34 @@
+import { InventoryError } from "./errors";
+import { LedgerEntry } from "./ledger";
+import { ReorderPolicy } from "./reorder";
+import { Reservation } from "./reservations";
+import { UnitRule } from "./units";
+
+// Change notifications published by the Inventory singleton
+
+export type InventoryEvent =
+  | { type: "item-added"; name: string; quantity: number; price: number; location: string }
+  | { type: "item-sold"; name: string; quantity: number; remaining: number; location?: string }
+  | { type: "sale-rejected"; name: string; quantity: number; location?: string; reason: InventoryError }
+  | { type: "item-transferred"; name: string; quantity: number; from: string; to: string }
+  | { type: "transfer-rejected"; name: string; quantity: number; from: string; to: string; reason: InventoryError }
+  | { type: "location-added"; location: string }
+  | { type: "reservation-created"; reservation: Reservation }
+  | { type: "reservation-confirmed"; reservation: Reservation }
+  | { type: "reservation-released"; reservation: Reservation; reason: "released" | "expired" }
+  | { type: "reservation-rejected"; name: string; quantity: number; location?: string; reason: InventoryError }
+  | { type: "price-changed"; name: string; previousPrice: number; price: number; effectiveFrom: number }
+  | { type: "price-scheduled"; name: string; price: number; effectiveFrom: number }
+  | { type: "stock-written-off"; name: string; quantity: number; lotId: string }
+  | { type: "reorder-policy-changed"; name: string; policy: ReorderPolicy | null }
+  | { type: "unit-rule-changed"; name: string; rule: UnitRule }
+  | { type: "label-changed"; name: string; label: string | null }
+  | { type: "low-stock"; name: string; available: number; reorderPoint: number; reorderQuantity: number }
+  | { type: "operations-undone"; entries: LedgerEntry[] }
+  | { type: "ledger-replayed"; entryCount: number }
+  | { type: "synced"; entries: LedgerEntry[]; conflicts: LedgerEntry[] }
+  | { type: "restored"; itemCount: number };
+
+export type InventoryEventType = InventoryEvent["type"];
+
+export type InventoryListener = (event: InventoryEvent) => void;
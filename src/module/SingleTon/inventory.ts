@@ -1,52 +1,931 @@
+import { isLeft, left, right } from "fp-ts/Either";
+import { Logger, noopLogger } from "../../lib/logger";
+import {
+  InventoryError,
+  InventoryResult,
+  validateName,
+  validatePrice,
+  validateQuantity,
+} from "./errors";
+import { InventoryEvent, InventoryListener } from "./events";
+import {
+  InventoryState,
+  LedgerEntry,
+  LedgerEntryOf,
+  LedgerEntryType,
+  LedgerOperation,
+  activeEntries,
+  applyEntry,
+  compareEntries,
+  createEmptyState,
+  createEntry,
+  replayLedger,
+  restoreEntry,
+  undoneEntryIds,
+} from "./ledger";
+import {
+  DEFAULT_LOCATION,
+  StockLot,
+  atLocation,
+  createLot,
+  expiresWithinDays,
+  isExpired,
+  totalQuantity,
+} from "./lots";
+import { PricePoint, priceAt } from "./pricing";
+import {
+  LowStockItem,
+  PurchaseOrderLine,
+  ReorderPolicy,
+  isLowStock,
+  suggestedOrderQuantity,
+} from "./reorder";
+import {
+  DEFAULT_RESERVATION_TTL_MS,
+  Reservation,
+  isReservationExpired,
+  reservedQuantity,
+} from "./reservations";
+import { InventorySnapshot, InventoryStorage, MemoryInventoryStorage } from "./storage";
+import {
+  DEFAULT_UNIT_RULE,
+  Unit,
+  UnitRule,
+  addQuantities,
+  convertQuantity,
+  subtractQuantity,
+  toBaseQuantity,
+} from "./units";
+import { SaleMargin, ValuationMethod, ValuationReport, valueLedger } from "./valuation";
+
+// Who performed an operation; falls back to the inventory's current actor
+export interface ActorOptions {
+  actor?: string;
+}
+
+// Unit the quantity is given in; defaults to the item's base unit
+export interface UnitOptions {
+  unit?: Unit;
+}
+
+// Optional details recorded with a delivery. Price and unit cost are per base unit.
+export interface ReceiveOptions extends ActorOptions, UnitOptions {
+  location?: string;
+  receivedAt?: Date;
+  expiresAt?: Date | null;
+  unitCost?: number;
+}
+
+// Anything sold under a SKU, such as the produce the factories create
+export interface StockKeepingUnit {
+  sku: string;
+  name: string;
+  price: number;
+  organic?: boolean;
+}
+
+export interface SellOptions extends ActorOptions, UnitOptions {
+  // Sell from one location only; without it every location is drawn from
+  location?: string;
+}
+
+export interface ReserveOptions extends ActorOptions, UnitOptions {
+  location?: string;
+  // How long the hold lasts before it is released automatically
+  ttlMs?: number;
+  // Free-form link back to the order or package the hold is for
+  reference?: string;
+}
+
+export interface PriceChangeOptions extends ActorOptions {
+  // Defaults to now; a future moment schedules the change
+  effectiveFrom?: Date;
+}
+
+export interface ScheduledPriceChange {
+  name: string;
+  price: number;
+  effectiveFrom: number;
+}
+
+export interface LedgerFilter {
+  name?: string;
+  type?: LedgerEntryType;
+  actor?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface ExpiringLot {
+  name: string;
+  lot: StockLot;
+}
+
+export interface WrittenOffLot {
+  name: string;
+  lot: StockLot;
+}
+
+// Actor recorded for changes the inventory makes on its own, such as expired holds
+const SYSTEM_ACTOR = "system";
+
+// Key of the instance getInstance() returns when no tenant is named
+export const DEFAULT_TENANT = "default";
+
+// Storage key or channel name of one tenant, e.g. "inventory-sync:downtown". The default tenant
+// keeps the plain name, so stock saved before tenants existed is still found.
+export function tenantScopedName(name: string, tenant: string): string {
+  return tenant === DEFAULT_TENANT ? name : `${name}:${tenant}`;
+}
+
+// setTimeout fires immediately for delays above this, so longer waits are split up
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 // Solution: Singleton pattern ensures only one inventory exists
 export class Inventory {
-  private static instance: Inventory | null = null;
-  private items: Map<string, number>;
-  private prices: Map<string, number>;
+  // One instance per tenant (store, franchise, test case); most callers only ever use the default one
+  private static instances = new Map<string, Inventory>();
+  // Shared by every instance; each one adds its tenant to the events
+  private static logger: Logger = noopLogger;
+  private state: InventoryState;
+  private ledger: LedgerEntry[];
+  private actor: string = SYSTEM_ACTOR;
+  private reservationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private priceTimers: Array<ReturnType<typeof setTimeout>> = [];
+  private storage: InventoryStorage;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private listeners = new Set<InventoryListener>();
+  private ledgerListeners = new Set<(entry: LedgerEntry) => void>();
+  private reportedConflicts = new Set<string>();
+  private version = 0;
+  // What getAllItems() hands out until the stock changes, so it can serve as a React snapshot
+  private itemsSnapshot: ReadonlyArray<[string, number]> | null = null;
 
-  private constructor() {
+  private constructor(private readonly tenant: string) {
     // Private constructor prevents direct instantiation
-    this.items = new Map<string, number>();
-    this.prices = new Map<string, number>();
-    console.log("Inventory system initialized");
+    this.state = createEmptyState();
+    this.ledger = [];
+    this.storage = new MemoryInventoryStorage();
+    this.logger.info("Inventory system initialized", { tenant });
+  }
+
+  // Where every instance sends its log events; nothing is logged until one is set
+  public static setLogger(logger: Logger): void {
+    Inventory.logger = logger;
   }
 
-  public static getInstance(): Inventory {
-    // Create the instance only if it doesn't exist
-    if (!Inventory.instance) {
-      Inventory.instance = new Inventory();
+  public static getInstance(tenant: string = DEFAULT_TENANT): Inventory {
+    // Create the tenant's instance only if it doesn't exist
+    let instance = Inventory.instances.get(tenant);
+    if (!instance) {
+      instance = new Inventory(tenant);
+      Inventory.instances.set(tenant, instance);
     }
-    return Inventory.instance;
+    return instance;
+  }
+
+  // Attaches a persistence backend to the tenant's instance and restores the stored stock
+  public static async configure(storage: InventoryStorage, tenant: string = DEFAULT_TENANT): Promise<Inventory> {
+    const inventory = Inventory.getInstance(tenant);
+    await inventory.attachStorage(storage);
+    return inventory;
   }
 
-  addItem(name: string, quantity: number, price: number): void {
-    this.items.set(name, (this.items.get(name) || 0) + quantity);
-    this.prices.set(name, price);
+  // Tenants that currently have an instance
+  public static getTenants(): string[] {
+    return Array.from(Inventory.instances.keys());
   }
 
-  sellItem(name: string, quantity: number): boolean {
-    const currentQuantity = this.items.get(name) || 0;
-    if (currentQuantity < quantity) {
-      console.log(`Not enough ${name} in stock!`);
-      return false;
+  // Forgets the tenant's instance (every instance without a tenant), so the next getInstance()
+  // starts from an empty inventory. Meant for tests and for signing out of a tenant.
+  public static reset(tenant?: string): void {
+    const tenants = tenant === undefined ? Inventory.getTenants() : [tenant];
+    tenants.forEach((key) => {
+      Inventory.instances.get(key)?.dispose();
+      Inventory.instances.delete(key);
+    });
+  }
+
+  // Await this before the first mutation, otherwise hydration overwrites earlier changes
+  async attachStorage(storage: InventoryStorage): Promise<void> {
+    this.storage = storage;
+    await this.hydrate();
+  }
+
+  async hydrate(): Promise<void> {
+    const snapshot = await this.storage.load();
+    if (!snapshot) {
+      // Nothing stored yet - seed the backend with the current state
+      this.persist();
+      return this.flush();
+    }
+    this.ledger = snapshot.ledger
+      ? snapshot.ledger.map(restoreEntry)
+      : openingEntries(snapshot);
+    this.replaceState(replayLedger(this.ledger));
+    if (!snapshot.ledger) this.persist();
+    this.emit({ type: "restored", itemCount: this.state.lots.size });
+  }
+
+  // Registers a listener for every change; call the returned function to stop listening
+  subscribe(listener: InventoryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: InventoryListener): void {
+    this.listeners.delete(listener);
+  }
+
+  // Called with every entry this instance records itself, but not with entries merged in from elsewhere
+  onEntryRecorded(listener: (entry: LedgerEntry) => void): () => void {
+    this.ledgerListeners.add(listener);
+    return () => {
+      this.ledgerListeners.delete(listener);
+    };
+  }
+
+  // Folds entries recorded elsewhere (another tab, another device) into this ledger.
+  // Conflict rule: the merged ledger is ordered by timestamp, ties broken by entry id, and replayed.
+  // Nothing is dropped; an operation the merged stock can no longer cover in full (two tabs selling
+  // the last units at once) takes what is left and is reported as a conflict.
+  mergeEntries(entries: ReadonlyArray<LedgerEntry>): LedgerEntry[] {
+    const known = new Set(this.ledger.map((entry) => entry.id));
+    const incoming = entries.filter((entry) => !known.has(entry.id)).map(restoreEntry);
+    if (incoming.length === 0) return [];
+
+    const conflicts: LedgerEntry[] = [];
+    this.ledger = [...this.ledger, ...incoming].sort(compareEntries);
+    this.replaceState(replayLedger(this.ledger, (entry) => {
+      if (this.reportedConflicts.has(entry.id)) return;
+      this.reportedConflicts.add(entry.id);
+      conflicts.push(entry);
+    }));
+    this.persist();
+    this.emit({ type: "synced", entries: incoming, conflicts });
+    return incoming;
+  }
+
+  // Key of this instance, as passed to getInstance()
+  getTenant(): string {
+    return this.tenant;
+  }
+
+  // Increases on every change, so callers can cheaply detect a stale view
+  getVersion(): number {
+    return this.version;
+  }
+
+  // Resolves once every pending write has reached the storage backend
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  toSnapshot(): InventorySnapshot {
+    return {
+      ledger: [...this.ledger],
+      lots: Array.from(this.state.lots.entries()),
+      prices: Array.from(this.state.priceHistory.keys(), (name) => [name, this.getPrice(name)]),
+      priceHistory: Array.from(this.state.priceHistory.entries()),
+      locations: Array.from(this.state.locations),
+      reservations: Array.from(this.state.reservations.values()),
+      reorderPolicies: Array.from(this.state.reorderPolicies.entries()),
+      unitRules: Array.from(this.state.unitRules.entries()),
+      labels: Array.from(this.state.labels.entries()),
+    };
+  }
+
+  // Name recorded in the ledger for operations that do not pass their own actor
+  setActor(actor: string): void {
+    this.actor = actor;
+  }
+
+  getActor(): string {
+    return this.actor;
+  }
+
+  // Each delivery becomes its own lot so it can be sold and written off by expiry
+  addItem(
+    name: string,
+    quantity: number,
+    price: number,
+    options: ReceiveOptions = {}
+  ): InventoryResult<LedgerEntryOf<"receive">> {
+    const unitCost = options.unitCost ?? 0;
+    const error = validateName(name)
+      ?? validateQuantity(quantity)
+      ?? validatePrice(price)
+      ?? validatePrice(unitCost, "unitCost");
+    if (error) return left(error);
+    const converted = this.toBaseQuantity(name, quantity, options.unit);
+    if (isLeft(converted)) return converted;
+
+    const baseQuantity = converted.right;
+    const previousPrice = priceAt(this.state.priceHistory.get(name) || [], Date.now());
+    const location = options.location ?? DEFAULT_LOCATION;
+    const lot = createLot({
+      location,
+      quantity: baseQuantity,
+      receivedAt: (options.receivedAt ?? new Date()).getTime(),
+      expiresAt: options.expiresAt ? options.expiresAt.getTime() : null,
+      unitCost,
+    });
+    const entry = this.record({ type: "receive", name, quantity: baseQuantity, price, lot }, options.actor);
+
+    this.emit({ type: "item-added", name, quantity: baseQuantity, price, location });
+    if (previousPrice !== undefined && previousPrice !== price) {
+      this.emit({ type: "price-changed", name, previousPrice, price, effectiveFrom: entry.timestamp });
+    }
+    return right(entry);
+  }
+
+  // Sells from the lots that expire first; expired lots are never sold
+  sellItem(name: string, quantity: number, options: SellOptions = {}): InventoryResult<LedgerEntryOf<"sell">> {
+    const { location } = options;
+    const now = Date.now();
+    const checked = this.checkWithdrawal(name, quantity, options.unit, location, now);
+    if (isLeft(checked)) {
+      if (checked.left.type === "insufficient-stock") {
+        this.logger.warn(`Not enough ${name} in stock!`, { name, quantity, available: checked.left.available, location });
+      }
+      this.emit({ type: "sale-rejected", name, quantity, location, reason: checked.left });
+      return checked;
     }
     
-    this.items.set(name, currentQuantity - quantity);
-    return true;
+    const baseQuantity = checked.right;
+    const availableBefore = this.getAvailableCount(name);
+    const entry = this.record(
+      { type: "sell", name, quantity: baseQuantity, price: this.getPrice(name), location },
+      options.actor,
+      now
+    );
+    this.emit({ type: "item-sold", name, quantity: baseQuantity, remaining: this.getStockCount(name, location), location });
+    this.checkReorderPoint(name, availableBefore);
+    return right(entry);
+  }
+
+  // Moves sellable stock between locations, keeping each lot's expiry and cost
+  transferItem(
+    name: string,
+    quantity: number,
+    from: string,
+    to: string,
+    options: ActorOptions = {}
+  ): InventoryResult<LedgerEntryOf<"transfer">> {
+    const now = Date.now();
+    const sameLocation: InventoryError | null = from === to ? { type: "same-location", location: to } : validateName(to);
+    const checked = sameLocation ? left(sameLocation) : this.checkWithdrawal(name, quantity, undefined, from, now);
+    if (isLeft(checked)) {
+      this.emit({ type: "transfer-rejected", name, quantity, from, to, reason: checked.left });
+      return checked;
+    }
+
+    const entry = this.record({ type: "transfer", name, quantity, from, to }, options.actor, now);
+    this.emit({ type: "item-transferred", name, quantity, from, to });
+    return right(entry);
+  }
+
+  // Holds stock for a customer; held units cannot be sold or moved until confirmed or released
+  reserveItem(name: string, quantity: number, options: ReserveOptions = {}): InventoryResult<Reservation> {
+    const { location, reference, ttlMs = DEFAULT_RESERVATION_TTL_MS } = options;
+    const now = Date.now();
+    const invalidTtl = validateQuantity(ttlMs);
+    const checked = invalidTtl ? left(invalidTtl) : this.checkWithdrawal(name, quantity, options.unit, location, now);
+    if (isLeft(checked)) {
+      this.emit({ type: "reservation-rejected", name, quantity, location, reason: checked.left });
+      return checked;
+    }
+
+    const availableBefore = this.getAvailableCount(name);
+    const reservation: Reservation = {
+      id: crypto.randomUUID(),
+      name,
+      quantity: checked.right,
+      location,
+      reference,
+      createdAt: now,
+      expiresAt: now + ttlMs,
+    };
+    this.record({ type: "reserve", name, quantity: reservation.quantity, reservation }, options.actor, now);
+    this.scheduleRelease(reservation);
+    this.emit({ type: "reservation-created", reservation: { ...reservation } });
+    this.checkReorderPoint(name, availableBefore);
+    return right({ ...reservation });
+  }
+
+  // Turns a hold into a sale
+  confirmReservation(id: string, options: ActorOptions = {}): InventoryResult<LedgerEntryOf<"confirm-reservation">> {
+    const reservation = this.state.reservations.get(id);
+    const now = Date.now();
+    if (!reservation) return left({ type: "unknown-reservation", reservationId: id });
+    if (isReservationExpired(reservation, now)) return left({ type: "reservation-expired", reservation: { ...reservation } });
+
+    const { name, quantity, location } = reservation;
+    // The held stock may have expired while it was on hold
+    const sellable = this.getSellableCount(name, location, new Date(now));
+    if (sellable < quantity) {
+      const unit = this.getUnitRule(name).baseUnit;
+      return left({ type: "insufficient-stock", name, requested: quantity, available: sellable, unit, location });
+    }
+
+    const entry = this.record(
+      { type: "confirm-reservation", name, quantity, price: this.getPrice(name), reservationId: id },
+      options.actor,
+      now
+    );
+    this.clearReleaseTimer(id);
+    this.emit({ type: "reservation-confirmed", reservation: { ...reservation } });
+    this.emit({ type: "item-sold", name, quantity, remaining: this.getStockCount(name, location), location });
+    return right(entry);
+  }
+
+  releaseReservation(id: string, options: ActorOptions = {}): InventoryResult<LedgerEntryOf<"release-reservation">> {
+    return this.endReservation(id, "released", options.actor);
+  }
+
+  // Drops every hold past its expiry; timers normally do this, this catches anything they missed
+  releaseExpiredReservations(at: Date = new Date()): Reservation[] {
+    const now = at.getTime();
+    const expired = Array.from(this.state.reservations.values()).filter((reservation) =>
+      isReservationExpired(reservation, now)
+    );
+    expired.forEach((reservation) => this.endReservation(reservation.id, "expired", SYSTEM_ACTOR));
+    return expired;
+  }
+
+  getReservations(name?: string): Reservation[] {
+    return Array.from(this.state.reservations.values())
+      .filter((reservation) => name === undefined || reservation.name === name)
+      .map((reservation) => ({ ...reservation }));
+  }
+
+  // Holds past their expiry no longer count, even before their timer has fired
+  getReservedCount(name: string, location?: string, at: Date = new Date()): number {
+    return reservedQuantity(this.state.reservations.values(), name, at.getTime(), location);
+  }
+
+  // Sellable stock that is not on hold. At one location, holds without a location also count
+  // as far as the free stock at the other locations cannot cover them.
+  getAvailableCount(name: string, location?: string, at: Date = new Date()): number {
+    const overall = Math.max(0, subtractQuantity(this.getSellableCount(name, undefined, at), this.getReservedCount(name, undefined, at)));
+    if (location === undefined) return overall;
+    const here = Math.max(0, subtractQuantity(this.getSellableCount(name, location, at), this.getReservedCount(name, location, at)));
+    return Math.min(here, overall);
+  }
+
+  // Pass null to stop watching the item
+  setReorderPolicy(
+    name: string,
+    policy: ReorderPolicy | null,
+    options: ActorOptions = {}
+  ): InventoryResult<LedgerEntryOf<"set-reorder-policy">> {
+    const error = validateName(name) ?? (policy && validateQuantity(policy.reorderQuantity));
+    if (error) return left(error);
+    // A reorder point of zero is fine: it alerts once the item runs out
+    if (policy && !(Number.isFinite(policy.reorderPoint) && policy.reorderPoint >= 0)) {
+      return left({ type: "invalid-quantity", quantity: policy.reorderPoint });
+    }
+
+    const entry = this.record({ type: "set-reorder-policy", name, policy: policy && { ...policy } }, options.actor);
+    this.emit({ type: "reorder-policy-changed", name, policy: policy && { ...policy } });
+    return right(entry);
+  }
+
+  getReorderPolicy(name: string): ReorderPolicy | null {
+    const policy = this.state.reorderPolicies.get(name);
+    return policy ? { ...policy } : null;
+  }
+
+  // Sets the base unit the item is counted in and how its other units convert to it.
+  // The base unit cannot change while the item is in stock, as that would rescale the stock on hand.
+  setUnitRule(name: string, rule: UnitRule, options: ActorOptions = {}): InventoryResult<LedgerEntryOf<"set-unit-rule">> {
+    const error = validateName(name)
+      ?? Object.values(rule.perUnit).map((factor) => validateQuantity(factor ?? NaN)).find(Boolean);
+    if (error) return left(error);
+    const { baseUnit } = this.getUnitRule(name);
+    if (rule.baseUnit !== baseUnit && this.getStockCount(name) > 0) {
+      return left({ type: "incompatible-unit", name, unit: rule.baseUnit, baseUnit });
+    }
+
+    const copy: UnitRule = { baseUnit: rule.baseUnit, perUnit: { ...rule.perUnit } };
+    const entry = this.record({ type: "set-unit-rule", name, rule: copy }, options.actor);
+    this.emit({ type: "unit-rule-changed", name, rule: { ...copy, perUnit: { ...copy.perUnit } } });
+    return right(entry);
   }
 
-  getStockCount(name: string): number {
-    return this.items.get(name) || 0;
+  getUnitRule(name: string): UnitRule {
+    const rule = this.state.unitRules.get(name) ?? DEFAULT_UNIT_RULE;
+    return { baseUnit: rule.baseUnit, perUnit: { ...rule.perUnit } };
+  }
+
+  // Gives an item a display name, for items keyed by a code such as a SKU; null removes it
+  setItemLabel(name: string, label: string | null, options: ActorOptions = {}): InventoryResult<LedgerEntryOf<"set-label">> {
+    const error = validateName(name) ?? (label !== null ? validateName(label) : null);
+    if (error) return left(error);
+
+    const entry = this.record({ type: "set-label", name, label: label && label.trim() }, options.actor);
+    this.emit({ type: "label-changed", name, label: entry.label });
+    return right(entry);
+  }
+
+  // The item's display name, or the key itself when it has none
+  getItemLabel(name: string): string {
+    return this.state.labels.get(name) ?? name;
+  }
+
+  // Receives a product under its SKU, labelled with its name, at the product's price
+  addProduct(
+    product: StockKeepingUnit,
+    quantity: number,
+    options: ReceiveOptions = {}
+  ): InventoryResult<LedgerEntryOf<"receive">> {
+    const label = product.organic ? `Organic ${product.name.trim()}` : product.name.trim();
+    if (this.state.labels.get(product.sku) !== label) {
+      const labelled = this.setItemLabel(product.sku, label, options);
+      if (isLeft(labelled)) return labelled;
+    }
+    return this.addItem(product.sku, quantity, product.price, options);
+  }
+
+  // Converts a quantity of the item between two of its units, e.g. its stock in cases
+  convertQuantity(name: string, quantity: number, from: Unit, to: Unit): InventoryResult<number> {
+    const rule = this.getUnitRule(name);
+    const converted = convertQuantity(quantity, from, to, rule);
+    if (converted !== null) return right(converted);
+    const unit = toBaseQuantity(1, from, rule) === null ? from : to;
+    return left({ type: "incompatible-unit", name, unit, baseUnit: rule.baseUnit });
+  }
+
+  // Items whose available stock (across all locations, holds excluded) is at or below their reorder point
+  getLowStockReport(at: Date = new Date()): LowStockItem[] {
+    const report: LowStockItem[] = [];
+    this.state.reorderPolicies.forEach((policy, name) => {
+      const available = this.getAvailableCount(name, undefined, at);
+      if (isLowStock(available, policy)) {
+        report.push({ name, available, ...policy });
+      }
+    });
+    return report;
+  }
+
+  // One purchase-order line per low-stock item, priced at the cost of the latest delivery
+  getPurchaseOrderSuggestions(at: Date = new Date()): PurchaseOrderLine[] {
+    return this.getLowStockReport(at).map(({ name, available, reorderPoint, reorderQuantity }) => {
+      const quantity = suggestedOrderQuantity(available, { reorderPoint, reorderQuantity });
+      const unitCost = this.getLastUnitCost(name);
+      return { name, quantity, unitCost, estimatedCost: quantity * unitCost };
+    });
+  }
+
+  addLocation(location: string, options: ActorOptions = {}): void {
+    if (this.state.locations.has(location)) return;
+    this.record({ type: "add-location", location }, options.actor);
+    this.emit({ type: "location-added", location });
+  }
+
+  getLocations(): string[] {
+    return Array.from(this.state.locations);
+  }
+
+  // Everything on hand, including expired lots that still await a write-off.
+  // Without a location the total across all locations is returned.
+  getStockCount(name: string, location?: string): number {
+    return totalQuantity(atLocation(this.state.lots.get(name) || [], location));
+  }
+
+  getSellableCount(name: string, location?: string, at: Date = new Date()): number {
+    const now = at.getTime();
+    return totalQuantity(atLocation(this.state.lots.get(name) || [], location).filter((lot) => !isExpired(lot, now)));
+  }
+
+  // Per-location quantities of one item
+  getStockByLocation(name: string): Array<[string, number]> {
+    return this.getLocations().map((location) => [location, this.getStockCount(name, location)]);
+  }
+
+  // Total units held at each location, across all items
+  getLocationTotals(): Array<[string, number]> {
+    const totals = new Map(this.getLocations().map((location) => [location, 0]));
+    this.state.lots.forEach((lots) => {
+      lots.forEach((lot) => totals.set(lot.location, addQuantities(totals.get(lot.location) || 0, lot.quantity)));
+    });
+    return Array.from(totals.entries());
+  }
+
+  getLots(name: string, location?: string): StockLot[] {
+    return atLocation(this.state.lots.get(name) || [], location).map((lot) => ({ ...lot }));
+  }
+
+  // Lots that expire within the given number of days, soonest first (already expired lots included)
+  getLotsExpiringWithin(days: number, at: Date = new Date()): ExpiringLot[] {
+    const now = at.getTime();
+    const expiring: ExpiringLot[] = [];
+    this.state.lots.forEach((lots, name) => {
+      lots
+        .filter((lot) => expiresWithinDays(lot, days, now))
+        .forEach((lot) => expiring.push({ name, lot: { ...lot } }));
+    });
+    return expiring.sort((a, b) => (a.lot.expiresAt ?? 0) - (b.lot.expiresAt ?? 0));
+  }
+
+  // Removes every expired lot from stock and reports what was thrown away
+  writeOffExpired(at: Date = new Date(), options: ActorOptions = {}): WrittenOffLot[] {
+    const now = at.getTime();
+    const writtenOff: WrittenOffLot[] = [];
+    this.state.lots.forEach((lots, name) => {
+      lots
+        .filter((lot) => isExpired(lot, now))
+        .forEach((lot) => writtenOff.push({ name, lot: { ...lot } }));
+    });
+
+    writtenOff.forEach(({ name, lot }) => {
+      this.record({ type: "write-off", name, quantity: lot.quantity, lotId: lot.id }, options.actor, now);
+      this.emit({ type: "stock-written-off", name, quantity: lot.quantity, lotId: lot.id });
+    });
+    return writtenOff;
   }
   
-  getPrice(name: string): number {
-    return this.prices.get(name) || 0;
+  // Changes the price now, or schedules it when effectiveFrom lies in the future
+  setPrice(name: string, price: number, options: PriceChangeOptions = {}): InventoryResult<LedgerEntryOf<"set-price">> {
+    const error = validateName(name) ?? validatePrice(price);
+    if (error) return left(error);
+
+    const now = Date.now();
+    const effectiveFrom = options.effectiveFrom?.getTime() ?? now;
+    const previousPrice = this.getPrice(name, new Date(effectiveFrom));
+    const entry = this.record({ type: "set-price", name, price, effectiveFrom }, options.actor, now);
+
+    if (effectiveFrom > now) {
+      this.schedulePriceTimer(name, effectiveFrom);
+      this.emit({ type: "price-scheduled", name, price, effectiveFrom });
+    } else {
+      this.emit({ type: "price-changed", name, previousPrice, price, effectiveFrom });
+    }
+    return right(entry);
+  }
+
+  // The price in effect at the given moment; defaults to now
+  getPrice(name: string, at: Date = new Date()): number {
+    return priceAt(this.state.priceHistory.get(name) || [], at.getTime()) ?? 0;
+  }
+
+  // Past, current and scheduled prices in the order they take effect
+  getPriceHistory(name: string): PricePoint[] {
+    return (this.state.priceHistory.get(name) || []).map((point) => ({ ...point }));
+  }
+
+  getScheduledPriceChanges(at: Date = new Date()): ScheduledPriceChange[] {
+    const now = at.getTime();
+    const scheduled: ScheduledPriceChange[] = [];
+    this.state.priceHistory.forEach((history, name) => {
+      history
+        .filter((point) => point.effectiveFrom > now)
+        .forEach((point) => scheduled.push({ name, ...point }));
+    });
+    return scheduled.sort((a, b) => a.effectiveFrom - b.effectiveFrom);
+  }
+
+  // What the stock on hand cost under the given method, with revenue, cost of goods sold
+  // and gross margin of every sale up to the given moment
+  getValuationReport(method: ValuationMethod = "fifo", at: Date = new Date()): ValuationReport {
+    return valueLedger(this.getLedger({ until: at }), method);
+  }
+
+  // Gross margin of each sale, oldest first; without a name every item's sales are included
+  getSaleMargins(name?: string, method: ValuationMethod = "fifo"): SaleMargin[] {
+    return this.getValuationReport(method).sales.filter((sale) => name === undefined || sale.name === name);
+  }
+
+  // The same array until the stock changes
+  getAllItems(): ReadonlyArray<[string, number]> {
+    if (!this.itemsSnapshot) {
+      this.itemsSnapshot = Array.from(this.state.lots.entries(), ([name, lots]) => [name, totalQuantity(lots)]);
+    }
+    return this.itemsSnapshot;
+  }
+
+  // Audit trail: ledger entries in the order they were recorded, undo markers included
+  getLedger(filter: LedgerFilter = {}): LedgerEntry[] {
+    const since = filter.since?.getTime() ?? -Infinity;
+    const until = filter.until?.getTime() ?? Infinity;
+    return this.ledger.filter((entry) =>
+      (filter.type === undefined || entry.type === filter.type) &&
+      (filter.actor === undefined || entry.actor === filter.actor) &&
+      (filter.name === undefined || ("name" in entry && entry.name === filter.name)) &&
+      entry.timestamp >= since &&
+      entry.timestamp <= until
+    );
+  }
+
+  isUndone(entryId: string): boolean {
+    return undoneEntryIds(this.ledger).has(entryId);
+  }
+
+  // Reverts the last N operations that have not been undone yet.
+  // The ledger stays append-only: an undo entry is recorded and the state is replayed without the reverted entries.
+  undo(count: number = 1, options: ActorOptions = {}): LedgerEntry[] {
+    const reverted = activeEntries(this.ledger).slice(-Math.max(0, count));
+    if (count <= 0 || reverted.length === 0) return [];
+
+    const entry = createEntry({ type: "undo", undoneIds: reverted.map((entry) => entry.id) }, options.actor ?? this.actor);
+    this.ledger.push(entry);
+    this.replaceState(replayLedger(this.ledger));
+    this.persist();
+    this.ledgerListeners.forEach((listener) => listener(entry));
+    this.emit({ type: "operations-undone", entries: reverted });
+    return reverted;
+  }
+
+  // Throws away the in-memory state and rebuilds it by replaying the ledger from the start
+  rebuildFromLedger(): void {
+    this.replaceState(replayLedger(this.ledger));
+    this.emit({ type: "ledger-replayed", entryCount: this.ledger.length });
+  }
+
+  private record<T extends LedgerOperation>(operation: T, actor: string = this.actor, timestamp?: number) {
+    const entry = createEntry(operation, actor, timestamp);
+    this.ledger.push(entry);
+    applyEntry(this.state, entry);
+    this.itemsSnapshot = null;
+    this.persist();
+    this.ledgerListeners.forEach((listener) => listener(entry));
+    return entry;
+  }
+
+  // Checked again after conversion, since rounding can turn a tiny amount in a small unit into zero
+  private toBaseQuantity(name: string, quantity: number, unit?: Unit): InventoryResult<number> {
+    const rule = this.getUnitRule(name);
+    const converted = toBaseQuantity(quantity, unit ?? rule.baseUnit, rule);
+    if (converted === null) {
+      return left({ type: "incompatible-unit", name, unit: unit ?? rule.baseUnit, baseUnit: rule.baseUnit });
+    }
+    const error = validateQuantity(converted);
+    return error ? left(error) : right(converted);
+  }
+
+  // The quantity in the item's base unit when that much can be taken from the location right now
+  private checkWithdrawal(
+    name: string,
+    quantity: number,
+    unit: Unit | undefined,
+    location: string | undefined,
+    now: number
+  ): InventoryResult<number> {
+    const error = validateQuantity(quantity);
+    if (error) return left(error);
+    if (!this.state.lots.has(name)) return left({ type: "unknown-item", name });
+    if (location !== undefined && !this.state.locations.has(location)) return left({ type: "unknown-location", location });
+
+    const converted = this.toBaseQuantity(name, quantity, unit);
+    if (isLeft(converted)) return converted;
+    const available = this.getAvailableCount(name, location, new Date(now));
+    return available < converted.right
+      ? left({ type: "insufficient-stock", name, requested: converted.right, available, unit: this.getUnitRule(name).baseUnit, location })
+      : converted;
+  }
+
+  // Alerts once, when an operation takes available stock from above the reorder point to at or below it
+  private checkReorderPoint(name: string, availableBefore: number): void {
+    const policy = this.state.reorderPolicies.get(name);
+    if (!policy) return;
+
+    const available = this.getAvailableCount(name);
+    if (!isLowStock(availableBefore, policy) && isLowStock(available, policy)) {
+      this.emit({ type: "low-stock", name, available, ...policy });
+    }
+  }
+
+  private getLastUnitCost(name: string): number {
+    const receipts = this.getLedger({ name, type: "receive" }).filter((entry) => !this.isUndone(entry.id));
+    const last = receipts[receipts.length - 1];
+    return last && last.type === "receive" ? last.lot.unitCost : 0;
   }
 
-  getAllItems(): Array<[string, number]> {
-    return Array.from(this.items.entries());
+  private replaceState(state: InventoryState): void {
+    this.state = state;
+    this.itemsSnapshot = null;
+    // Timers belong to the old state; schedule them again for the holds that survived
+    this.reservationTimers.forEach((timer) => clearTimeout(timer));
+    this.reservationTimers.clear();
+    this.state.reservations.forEach((reservation) => this.scheduleRelease(reservation));
+    this.priceTimers.forEach((timer) => clearTimeout(timer));
+    this.priceTimers = [];
+    this.getScheduledPriceChanges().forEach(({ name, effectiveFrom }) => this.schedulePriceTimer(name, effectiveFrom));
   }
+
+  // Announces a scheduled price once it takes effect, so views showing the current price refresh
+  private schedulePriceTimer(name: string, effectiveFrom: number): void {
+    const delay = effectiveFrom - Date.now();
+    const timer = setTimeout(() => {
+      this.priceTimers = this.priceTimers.filter((pending) => pending !== timer);
+      if (Date.now() < effectiveFrom) {
+        this.schedulePriceTimer(name, effectiveFrom);
+        return;
+      }
+      const history = this.state.priceHistory.get(name) || [];
+      const price = priceAt(history, effectiveFrom);
+      // The change may have been undone or replaced while waiting
+      if (!history.some((point) => point.effectiveFrom === effectiveFrom) || price === undefined) return;
+      this.emit({ type: "price-changed", name, previousPrice: priceAt(history, effectiveFrom - 1) ?? 0, price, effectiveFrom });
+    }, Math.min(Math.max(0, delay), MAX_TIMER_DELAY_MS));
+    this.priceTimers.push(timer);
+  }
+
+  private endReservation(
+    id: string,
+    reason: "released" | "expired",
+    actor?: string
+  ): InventoryResult<LedgerEntryOf<"release-reservation">> {
+    const reservation = this.state.reservations.get(id);
+    if (!reservation) return left({ type: "unknown-reservation", reservationId: id });
+
+    const { name, quantity } = reservation;
+    const entry = this.record({ type: "release-reservation", name, quantity, reservationId: id, reason }, actor);
+    this.clearReleaseTimer(id);
+    this.emit({ type: "reservation-released", reservation: { ...reservation }, reason });
+    return right(entry);
+  }
+
+  private clearReleaseTimer(id: string): void {
+    clearTimeout(this.reservationTimers.get(id));
+    this.reservationTimers.delete(id);
+  }
+
+  private scheduleRelease(reservation: Reservation): void {
+    const delay = reservation.expiresAt - Date.now();
+    this.reservationTimers.set(
+      reservation.id,
+      setTimeout(() => {
+        if (Date.now() < reservation.expiresAt) {
+          this.scheduleRelease(reservation);
+          return;
+        }
+        this.endReservation(reservation.id, "expired", SYSTEM_ACTOR);
+      }, Math.min(Math.max(0, delay), MAX_TIMER_DELAY_MS))
+    );
+  }
+
+  // Stops the timers and drops the listeners of an instance that is being thrown away
+  private dispose(): void {
+    this.reservationTimers.forEach((timer) => clearTimeout(timer));
+    this.reservationTimers.clear();
+    this.priceTimers.forEach((timer) => clearTimeout(timer));
+    this.priceTimers = [];
+    this.listeners.clear();
+    this.ledgerListeners.clear();
+  }
+
+  private emit(event: InventoryEvent): void {
+    this.version++;
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private persist(): void {
+    // Write-through: queue the write so snapshots reach the backend in order
+    const snapshot = this.toSnapshot();
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.storage.save(snapshot))
+      .catch((error) => this.logger.error("Failed to persist inventory", { error: String(error) }));
+  }
+
+  private get logger(): Logger {
+    return Inventory.logger.child("inventory", { tenant: this.tenant });
+  }
+}
+
+// Snapshots saved before the ledger existed only hold the resulting state;
+// turn that state into opening-balance entries so it can be replayed like any other history
+function openingEntries(snapshot: InventorySnapshot): LedgerEntry[] {
+  const prices = new Map(snapshot.prices);
+  const lots: Array<[string, StockLot[]]> = snapshot.lots
+    ?? (snapshot.items ?? []).map(([name, quantity]) => [
+      name,
+      [createLot({ location: DEFAULT_LOCATION, quantity, receivedAt: Date.now(), expiresAt: null, unitCost: 0 })],
+    ]);
+
+  return [
+    ...(snapshot.locations ?? []).map((location) =>
+      createEntry({ type: "add-location", location }, SYSTEM_ACTOR)
+    ),
+    ...lots.flatMap(([name, itemLots]) => itemLots.map((lot) =>
+      createEntry(
+        {
+          type: "receive",
+          name,
+          quantity: lot.quantity,
+          price: prices.get(name) || 0,
+          lot: { ...lot, location: lot.location ?? DEFAULT_LOCATION },
+        },
+        SYSTEM_ACTOR
+      )
+    )),
+    ...(snapshot.reservations ?? []).map((reservation) =>
+      createEntry(
+        { type: "reserve", name: reservation.name, quantity: reservation.quantity, reservation },
+        SYSTEM_ACTOR
+      )
+    ),
+  ];
 }
 
 /* 
@@ -54,6 +933,23 @@ Solution benefits:
 - Single source of truth for inventory data
 - All systems work with the same inventory instance
 - No possibility of data desynchronization
+- Optional persistence backend survives page reloads
+- Deliveries are tracked as lots and sold first-expiry-first-out
+- Stores, warehouse and vans are locations within the same instance
+- Reservations hold stock until checkout and expire on their own
+- Every change is an immutable ledger entry that can be audited, replayed and undone
+- Reorder points raise low-stock alerts and drive purchase-order suggestions
+- Ledger entries are shared between browser tabs so every tab sees the same stock
+- Prices keep their full history, and future price changes can be scheduled
+- Each tenant gets its own instance, and tests can reset them between cases
+- Operations validate their input and return typed errors explaining a refusal
+- Items are counted in their own unit of measure and can be traded in any compatible unit
+- Receipt costs value the stock on hand (FIFO or weighted average) and give each sale its gross margin
+- Diagnostics go to an injected logger instead of the console
+- Items can be keyed by SKU and still show a readable label
+
+// Persist to the browser before first use:
+await Inventory.configure(new LocalStorageInventoryStorage("inventory"));
 
 // Usage across different app components:
 const registerSystem = Inventory.getInstance();
@@ -68,4 +964,13 @@ console.log(registerSystem.getStockCount("Orange")); // Returns 30
 console.log(stockSystem.getStockCount("Apple")); // Returns 50
 
 // Changes made in one place are visible everywhere
+
+// A second store keeps its own stock
+Inventory.getInstance("downtown").addItem("Pear", 10, 1.2);
+
+// Between tests:
+Inventory.reset();
+
+// Send diagnostics somewhere (by default they are dropped):
+Inventory.setLogger(new Logger(new ConsoleLogSink()));
 */
@@ -0,0 +1,257 @@
+import { ConsumedLot, DEFAULT_LOCATION, StockLot, consumeFirstExpiry, isExpired } from "./lots";
+import { PricePoint, priceAt, withPricePoint } from "./pricing";
+import { ReorderPolicy } from "./reorder";
+import { Reservation, reservedQuantity } from "./reservations";
+import { UnitRule, addQuantities, subtractQuantity } from "./units";
+
+// Append-only ledger: every inventory mutation is recorded as an immutable entry,
+// and the current state is whatever replaying those entries produces
+
+interface LedgerEntryBase {
+  readonly id: string;
+  readonly timestamp: number;
+  readonly actor: string;
+}
+
+export type LedgerOperation =
+  | {
+      readonly type: "receive";
+      readonly name: string;
+      readonly quantity: number;
+      readonly price: number;
+      readonly lot: Readonly<StockLot>;
+    }
+  | {
+      readonly type: "sell";
+      readonly name: string;
+      readonly quantity: number;
+      readonly price: number;
+      readonly location?: string;
+    }
+  | {
+      readonly type: "transfer";
+      readonly name: string;
+      readonly quantity: number;
+      readonly from: string;
+      readonly to: string;
+    }
+  | { readonly type: "write-off"; readonly name: string; readonly quantity: number; readonly lotId: string }
+  | { readonly type: "set-price"; readonly name: string; readonly price: number; readonly effectiveFrom: number }
+  | { readonly type: "add-location"; readonly location: string }
+  | { readonly type: "reserve"; readonly name: string; readonly quantity: number; readonly reservation: Readonly<Reservation> }
+  | {
+      readonly type: "confirm-reservation";
+      readonly name: string;
+      readonly quantity: number;
+      readonly price: number;
+      readonly reservationId: string;
+    }
+  | {
+      readonly type: "release-reservation";
+      readonly name: string;
+      readonly quantity: number;
+      readonly reservationId: string;
+      readonly reason: "released" | "expired";
+    }
+  | { readonly type: "set-reorder-policy"; readonly name: string; readonly policy: Readonly<ReorderPolicy> | null }
+  | { readonly type: "set-unit-rule"; readonly name: string; readonly rule: Readonly<UnitRule> }
+  | { readonly type: "set-label"; readonly name: string; readonly label: string | null }
+  | { readonly type: "undo"; readonly undoneIds: ReadonlyArray<string> };
+
+export type LedgerEntry = LedgerEntryBase & LedgerOperation;
+
+export type LedgerEntryType = LedgerEntry["type"];
+
+// The entry of one particular operation, e.g. LedgerEntryOf<"sell">
+export type LedgerEntryOf<T extends LedgerEntryType> = Extract<LedgerEntry, { type: T }>;
+
+// Everything the inventory knows, rebuilt from the ledger
+export interface InventoryState {
+  lots: Map<string, StockLot[]>;
+  priceHistory: Map<string, PricePoint[]>;
+  locations: Set<string>;
+  reservations: Map<string, Reservation>;
+  reorderPolicies: Map<string, ReorderPolicy>;
+  unitRules: Map<string, UnitRule>;
+  // Display names of items keyed by something else, such as a SKU
+  labels: Map<string, string>;
+}
+
+export function createEmptyState(): InventoryState {
+  return {
+    lots: new Map<string, StockLot[]>(),
+    priceHistory: new Map<string, PricePoint[]>(),
+    locations: new Set<string>([DEFAULT_LOCATION]),
+    reservations: new Map<string, Reservation>(),
+    reorderPolicies: new Map<string, ReorderPolicy>(),
+    unitRules: new Map<string, UnitRule>(),
+    labels: new Map<string, string>(),
+  };
+}
+
+export function createEntry<T extends LedgerOperation>(
+  operation: T,
+  actor: string,
+  timestamp: number = Date.now()
+): LedgerEntryBase & T {
+  return deepFreeze({ ...operation, id: crypto.randomUUID(), timestamp, actor });
+}
+
+// Re-freezes an entry read back from storage or another tab
+export function restoreEntry(entry: LedgerEntry): LedgerEntry {
+  return deepFreeze(structuredClone(entry));
+}
+
+// Ids of every entry reverted by a later undo entry
+export function undoneEntryIds(entries: ReadonlyArray<LedgerEntry>): Set<string> {
+  const undone = new Set<string>();
+  entries.forEach((entry) => {
+    if (entry.type === "undo") entry.undoneIds.forEach((id) => undone.add(id));
+  });
+  return undone;
+}
+
+// Entries that still count: not undo markers themselves and not reverted by one
+export function activeEntries(entries: ReadonlyArray<LedgerEntry>): LedgerEntry[] {
+  const undone = undoneEntryIds(entries);
+  return entries.filter((entry) => entry.type !== "undo" && !undone.has(entry.id));
+}
+
+// Ledger order: by timestamp, ties broken by id so every tab sorts merged histories the same way
+export function compareEntries(a: LedgerEntry, b: LedgerEntry): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Rebuilds the state from scratch. Entries that can no longer be applied in full
+// (only possible after merging histories from several tabs) are passed to onConflict.
+export function replayLedger(
+  entries: ReadonlyArray<LedgerEntry>,
+  onConflict?: (entry: LedgerEntry) => void
+): InventoryState {
+  const state = createEmptyState();
+  activeEntries(entries).forEach((entry) => {
+    if (!applyEntry(state, entry)) onConflict?.(entry);
+  });
+  return state;
+}
+
+// Applies one entry to the state in place and reports whether it applied in full.
+// Entries were validated when recorded, so replaying one tab's ledger in order reproduces exactly the same state.
+export function applyEntry(state: InventoryState, entry: LedgerEntry): boolean {
+  switch (entry.type) {
+    case "receive": {
+      state.locations.add(entry.lot.location);
+      state.lots.set(entry.name, [...(state.lots.get(entry.name) || []), { ...entry.lot }]);
+      // A delivery at a new price starts a new price point; the old ones stay in the history
+      const history = state.priceHistory.get(entry.name) || [];
+      if (priceAt(history, entry.timestamp) !== entry.price) {
+        state.priceHistory.set(entry.name, withPricePoint(history, { price: entry.price, effectiveFrom: entry.timestamp }));
+      }
+      break;
+    }
+    case "sell": {
+      const current = state.lots.get(entry.name) || [];
+      const limits = entry.location === undefined ? unheldLimits(state, current, entry.name, entry.timestamp) : undefined;
+      const { lots, consumed } = consumeFirstExpiry(current, entry.quantity, entry.timestamp, entry.location, limits);
+      state.lots.set(entry.name, lots);
+      return totalConsumed(consumed) === entry.quantity;
+    }
+    case "transfer": {
+      const current = state.lots.get(entry.name) || [];
+      const { lots, consumed } = consumeFirstExpiry(current, entry.quantity, entry.timestamp, entry.from);
+      // Moved lots get ids derived from the entry so every replay produces the same ids
+      const moved = consumed.map(({ lotId, quantity }, index) => ({
+        ...current.find((lot) => lot.id === lotId)!,
+        id: `${entry.id}:${index}`,
+        location: entry.to,
+        quantity,
+      }));
+      state.locations.add(entry.to);
+      state.lots.set(entry.name, [...lots, ...moved]);
+      return totalConsumed(consumed) === entry.quantity;
+    }
+    case "write-off": {
+      state.lots.set(entry.name, (state.lots.get(entry.name) || []).filter((lot) => lot.id !== entry.lotId));
+      break;
+    }
+    case "set-price": {
+      const history = state.priceHistory.get(entry.name) || [];
+      state.priceHistory.set(entry.name, withPricePoint(history, { price: entry.price, effectiveFrom: entry.effectiveFrom }));
+      break;
+    }
+    case "add-location": {
+      state.locations.add(entry.location);
+      break;
+    }
+    case "reserve": {
+      state.reservations.set(entry.reservation.id, { ...entry.reservation });
+      break;
+    }
+    case "confirm-reservation": {
+      const reservation = state.reservations.get(entry.reservationId);
+      if (!reservation) return false;
+      const current = state.lots.get(entry.name) || [];
+      // A hold without a location is filled around the stock other holds keep at their locations
+      const limits = reservation.location === undefined ? unheldLimits(state, current, entry.name, entry.timestamp) : undefined;
+      const { lots, consumed } = consumeFirstExpiry(current, entry.quantity, entry.timestamp, reservation.location, limits);
+      state.lots.set(entry.name, lots);
+      state.reservations.delete(entry.reservationId);
+      return totalConsumed(consumed) === entry.quantity;
+    }
+    case "release-reservation": {
+      state.reservations.delete(entry.reservationId);
+      break;
+    }
+    case "set-reorder-policy": {
+      if (entry.policy) {
+        state.reorderPolicies.set(entry.name, { ...entry.policy });
+      } else {
+        state.reorderPolicies.delete(entry.name);
+      }
+      break;
+    }
+    case "set-unit-rule": {
+      state.unitRules.set(entry.name, { baseUnit: entry.rule.baseUnit, perUnit: { ...entry.rule.perUnit } });
+      break;
+    }
+    case "set-label": {
+      if (entry.label !== null) {
+        state.labels.set(entry.name, entry.label);
+      } else {
+        state.labels.delete(entry.name);
+      }
+      break;
+    }
+    case "undo": {
+      // Undo entries are resolved by replayLedger, never applied directly
+      break;
+    }
+  }
+  return true;
+}
+
+// What each location can give up to a withdrawal that names no location: its unexpired stock
+// minus the holds placed at that location
+function unheldLimits(state: InventoryState, lots: ReadonlyArray<StockLot>, name: string, now: number): Map<string, number> {
+  const limits = new Map<string, number>();
+  lots.filter((lot) => !isExpired(lot, now)).forEach((lot) => {
+    limits.set(lot.location, addQuantities(limits.get(lot.location) ?? 0, lot.quantity));
+  });
+  limits.forEach((quantity, location) => {
+    const held = reservedQuantity(state.reservations.values(), name, now, location);
+    limits.set(location, Math.max(0, subtractQuantity(quantity, held)));
+  });
+  return limits;
+}
+
+function totalConsumed(consumed: ReadonlyArray<ConsumedLot>): number {
+  return addQuantities(...consumed.map((part) => part.quantity));
+}
+
+function deepFreeze<T extends object>(value: T): T {
+  Object.values(value).forEach((child) => {
+    if (child && typeof child === "object") deepFreeze(child);
+  });
+  return Object.freeze(value);
+}
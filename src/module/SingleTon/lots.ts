@@ -0,0 +1,83 @@
+import { addQuantities, subtractQuantity } from "./units";
+
+// Stock lots: each delivery is kept separately so perishable produce can be sold before it spoils
+// Timestamps are epoch milliseconds so lots survive JSON persistence unchanged
+
+export interface StockLot {
+  id: string;
+  location: string;
+  quantity: number;
+  receivedAt: number;
+  expiresAt: number | null;
+  unitCost: number;
+}
+
+// Portion of a lot taken out by a sale or write-off
+export interface ConsumedLot {
+  lotId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stock without an explicit location is kept here
+export const DEFAULT_LOCATION = "main";
+
+export function createLot(fields: Omit<StockLot, "id">): StockLot {
+  return { ...fields, id: crypto.randomUUID() };
+}
+
+export function totalQuantity(lots: ReadonlyArray<StockLot>): number {
+  return addQuantities(...lots.map((lot) => lot.quantity));
+}
+
+export function isExpired(lot: StockLot, now: number): boolean {
+  return lot.expiresAt !== null && lot.expiresAt <= now;
+}
+
+export function expiresWithinDays(lot: StockLot, days: number, now: number): boolean {
+  return lot.expiresAt !== null && lot.expiresAt <= now + days * DAY_MS;
+}
+
+// First-expiry-first-out order; lots without an expiry go last, ties fall back to arrival order
+export function sortFirstExpiry(lots: ReadonlyArray<StockLot>): StockLot[] {
+  return [...lots].sort((a, b) => {
+    const aExpiry = a.expiresAt ?? Infinity;
+    const bExpiry = b.expiresAt ?? Infinity;
+    if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+    return a.receivedAt - b.receivedAt;
+  });
+}
+
+export function atLocation(lots: ReadonlyArray<StockLot>, location?: string): StockLot[] {
+  return location === undefined ? [...lots] : lots.filter((lot) => lot.location === location);
+}
+
+// Removes quantity from the unexpired lots in FEFO order, optionally from one location only.
+// limits caps what each listed location gives up, e.g. to leave stock on hold there alone.
+// The caller must check availability first; lots are never driven below zero.
+export function consumeFirstExpiry(
+  lots: ReadonlyArray<StockLot>,
+  quantity: number,
+  now: number,
+  location?: string,
+  limits?: ReadonlyMap<string, number>
+): { lots: StockLot[]; consumed: ConsumedLot[] } {
+  let outstanding = quantity;
+  const consumed: ConsumedLot[] = [];
+  const unused = new Map(limits);
+  const remaining = sortFirstExpiry(lots).map((lot) => {
+    if (outstanding <= 0 || isExpired(lot, now)) return lot;
+    if (location !== undefined && lot.location !== location) return lot;
+    const limit = unused.get(lot.location) ?? Infinity;
+    const taken = Math.min(lot.quantity, outstanding, limit);
+    if (taken <= 0) return lot;
+    if (unused.has(lot.location)) unused.set(lot.location, subtractQuantity(limit, taken));
+    outstanding = subtractQuantity(outstanding, taken);
+    consumed.push({ lotId: lot.id, quantity: taken, unitCost: lot.unitCost });
+    return { ...lot, quantity: subtractQuantity(lot.quantity, taken) };
+  });
+
+  return { lots: remaining.filter((lot) => lot.quantity > 0), consumed };
+}
@@ -0,0 +1,23 @@
+// Price history: every price an item has had or is scheduled to have, with the moment it takes effect
+
+export interface PricePoint {
+  price: number;
+  // Epoch milliseconds
+  effectiveFrom: number;
+}
+
+// The price in effect at the given moment, or undefined before the first price point
+export function priceAt(history: ReadonlyArray<PricePoint>, at: number): number | undefined {
+  let current: number | undefined;
+  for (const point of history) {
+    if (point.effectiveFrom > at) break;
+    current = point.price;
+  }
+  return current;
+}
+
+// Adds a point keeping the history sorted; a point at the same moment replaces the old one
+export function withPricePoint(history: ReadonlyArray<PricePoint>, point: PricePoint): PricePoint[] {
+  return [...history.filter((existing) => existing.effectiveFrom !== point.effectiveFrom), point]
+    .sort((a, b) => a.effectiveFrom - b.effectiveFrom);
+}
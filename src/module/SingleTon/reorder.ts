@@ -0,0 +1,29 @@
+// Reorder rules: when available stock falls to the reorder point, it is time to buy more
+
+export interface ReorderPolicy {
+  reorderPoint: number;
+  reorderQuantity: number;
+}
+
+export interface LowStockItem {
+  name: string;
+  available: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+}
+
+export interface PurchaseOrderLine {
+  name: string;
+  quantity: number;
+  unitCost: number;
+  estimatedCost: number;
+}
+
+export function isLowStock(available: number, policy: ReorderPolicy): boolean {
+  return available <= policy.reorderPoint;
+}
+
+// Orders the usual quantity, or more when that alone would not lift stock above the reorder point
+export function suggestedOrderQuantity(available: number, policy: ReorderPolicy): number {
+  return Math.max(policy.reorderQuantity, policy.reorderPoint - available + 1);
+}
@@ -0,0 +1,37 @@
+import { addQuantities } from "./units";
+
+// Stock holds: quantity set aside for a customer until checkout or until the hold runs out
+
+export interface Reservation {
+  id: string;
+  name: string;
+  quantity: number;
+  // Without a location the hold counts against the total across all locations
+  location?: string;
+  reference?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export const DEFAULT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+export function isReservationExpired(reservation: Reservation, now: number): boolean {
+  return reservation.expiresAt <= now;
+}
+
+// Quantity held for an item; with a location only holds placed at that location count
+// (Inventory.getAvailableCount weighs holds without a location against every location)
+export function reservedQuantity(
+  reservations: Iterable<Reservation>,
+  name: string,
+  now: number,
+  location?: string
+): number {
+  let total = 0;
+  for (const reservation of reservations) {
+    if (reservation.name !== name || isReservationExpired(reservation, now)) continue;
+    if (location !== undefined && reservation.location !== location) continue;
+    total = addQuantities(total, reservation.quantity);
+  }
+  return total;
+}
@@ -0,0 +1,269 @@
+import { Inventory } from "./inventory";
+import { UNITS, Unit, UnitRule, unitFactor } from "./units";
+
+// CSV and JSON stock sheets: bulk import into the Inventory singleton and export of its current stock.
+// An exported sheet imports into an empty inventory as the same items, labels and base units;
+// other unit conversions (e.g. how many make a case) and locations are not part of the sheet.
+
+export type StockSheetFormat = "csv" | "json";
+
+export interface StockSheetRow {
+  name: string;
+  quantity: number;
+  price: number;
+  // Display name for items keyed by a code such as a SKU
+  label?: string;
+  // Unit the quantity is in; the item's base unit when left out
+  unit?: Unit;
+}
+
+export interface StockSheetError {
+  // 1-based data row (the CSV header is not counted)
+  row: number;
+  field?: keyof StockSheetRow;
+  message: string;
+}
+
+export interface StockSheetPreview {
+  rows: StockSheetRow[];
+  errors: StockSheetError[];
+}
+
+export interface StockSheetImportOptions {
+  // Validate and report without touching the inventory
+  dryRun?: boolean;
+  actor?: string;
+}
+
+export interface StockSheetImportResult extends StockSheetPreview {
+  // Nothing is imported when any row is invalid
+  imported: number;
+}
+
+const COLUMNS: ReadonlyArray<keyof StockSheetRow> = ["name", "quantity", "price", "label", "unit"];
+const REQUIRED_COLUMNS: ReadonlyArray<keyof StockSheetRow> = ["name", "quantity", "price"];
+
+export function parseStockSheet(text: string, format: StockSheetFormat): StockSheetPreview {
+  return format === "csv" ? parseCsvSheet(text) : parseJsonSheet(text);
+}
+
+export function importStockSheet(
+  inventory: Inventory,
+  text: string,
+  format: StockSheetFormat,
+  options: StockSheetImportOptions = {}
+): StockSheetImportResult {
+  // Units are checked against the inventory once every row parses, so row numbers line up
+  const parsed = parseStockSheet(text, format);
+  const preview = parsed.errors.length > 0 ? parsed : { ...parsed, errors: checkUnits(inventory, parsed.rows) };
+  if (options.dryRun || preview.errors.length > 0) {
+    return { ...preview, imported: 0 };
+  }
+
+  const { actor } = options;
+  preview.rows.forEach(({ name, quantity, price, label, unit }) => {
+    if (unit && needsBaseUnit(inventory, name, unit)) {
+      inventory.setUnitRule(name, { baseUnit: unit, perUnit: {} }, { actor });
+    }
+    if (label && inventory.getItemLabel(name) !== label) {
+      inventory.setItemLabel(name, label, { actor });
+    }
+    inventory.addItem(name, quantity, price, { actor, unit });
+  });
+  return { ...preview, imported: preview.rows.length };
+}
+
+// The rows an export writes: items in stock, in their base unit. Sold-out items are left out,
+// as an import only adds stock, so a zero row has nothing to add.
+export function stockSheetRows(inventory: Inventory): StockSheetRow[] {
+  return inventory
+    .getAllItems()
+    .filter(([, quantity]) => quantity > 0)
+    .map(([name, quantity]) => {
+      const label = inventory.getItemLabel(name);
+      return {
+        name,
+        quantity,
+        price: inventory.getPrice(name),
+        ...(label !== name ? { label } : {}),
+        unit: inventory.getUnitRule(name).baseUnit,
+      };
+    });
+}
+
+export function formatStockSheet(rows: StockSheetRow[], format: StockSheetFormat): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2);
+  }
+  return [
+    COLUMNS.join(","),
+    ...rows.map((row) => COLUMNS.map((column) => escapeCsvField(String(row[column] ?? ""))).join(",")),
+  ].join("\n");
+}
+
+export function exportStockSheet(inventory: Inventory, format: StockSheetFormat): string {
+  return formatStockSheet(stockSheetRows(inventory), format);
+}
+
+// A unit the item cannot be counted in becomes its base unit. That is only possible while the item
+// is out of stock, both in the inventory and in the rows above.
+function checkUnits(inventory: Inventory, rows: StockSheetRow[]): StockSheetError[] {
+  const rules = new Map<string, UnitRule>();
+  const stocked = new Set<string>();
+  return rows.flatMap(({ name, unit }, index) => {
+    const rule = rules.get(name) ?? inventory.getUnitRule(name);
+    const inStock = stocked.has(name) || inventory.getStockCount(name) > 0;
+    stocked.add(name);
+    if (!unit || unitFactor(rule, unit) !== null) return [];
+    if (inStock) {
+      return [{ row: index + 1, field: "unit" as const, message: `${name} is counted in ${rule.baseUnit}, which ${unit} does not convert to` }];
+    }
+    rules.set(name, { baseUnit: unit, perUnit: {} });
+    return [];
+  });
+}
+
+function needsBaseUnit(inventory: Inventory, name: string, unit: Unit): boolean {
+  return unitFactor(inventory.getUnitRule(name), unit) === null;
+}
+
+function parseCsvSheet(text: string): StockSheetPreview {
+  const records = parseCsv(text).filter((record) => record.some((field) => field.trim() !== ""));
+  if (records.length === 0) {
+    return { rows: [], errors: [{ row: 0, message: "Sheet is empty" }] };
+  }
+
+  const header = records[0].map((field) => field.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ row: 0, message: `Missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  const rows: StockSheetRow[] = [];
+  const errors: StockSheetError[] = [];
+  records.slice(1).forEach((record, index) => {
+    const field = (column: keyof StockSheetRow) => record[header.indexOf(column)]?.trim() ?? "";
+    const row = validateRow(
+      index + 1,
+      field("name"),
+      field("quantity") === "" ? NaN : Number(field("quantity")),
+      field("price") === "" ? NaN : Number(field("price")),
+      field("label"),
+      field("unit"),
+      errors
+    );
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+}
+
+function parseJsonSheet(text: string): StockSheetPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { rows: [], errors: [{ row: 0, message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+  if (!Array.isArray(data)) {
+    return { rows: [], errors: [{ row: 0, message: "Expected an array of { name, quantity, price } objects" }] };
+  }
+
+  const rows: StockSheetRow[] = [];
+  const errors: StockSheetError[] = [];
+  data.forEach((item, index) => {
+    if (typeof item !== "object" || item === null) {
+      errors.push({ row: index + 1, message: "Expected an object" });
+      return;
+    }
+    const { name, quantity, price, label, unit } = item as Record<string, unknown>;
+    const row = validateRow(
+      index + 1,
+      typeof name === "string" ? name.trim() : "",
+      typeof quantity === "number" ? quantity : NaN,
+      typeof price === "number" ? price : NaN,
+      typeof label === "string" ? label.trim() : "",
+      unit === undefined ? "" : String(unit).trim(),
+      errors
+    );
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+}
+
+function validateRow(
+  row: number,
+  name: string,
+  quantity: number,
+  price: number,
+  label: string,
+  unit: string,
+  errors: StockSheetError[]
+): StockSheetRow | null {
+  const before = errors.length;
+  if (name === "") {
+    errors.push({ row, field: "name", message: "Name is required" });
+  }
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    errors.push({ row, field: "quantity", message: "Quantity must be a positive number" });
+  }
+  if (!Number.isFinite(price) || price < 0) {
+    errors.push({ row, field: "price", message: "Price must be a number of zero or more" });
+  }
+  if (unit !== "" && !isUnit(unit)) {
+    errors.push({ row, field: "unit", message: `Unit must be one of ${UNITS.join(", ")}` });
+  }
+  if (errors.length > before) return null;
+  return {
+    name,
+    quantity,
+    price,
+    ...(label !== "" ? { label } : {}),
+    ...(isUnit(unit) ? { unit } : {}),
+  };
+}
+
+function isUnit(value: string): value is Unit {
+  return (UNITS as ReadonlyArray<string>).includes(value);
+}
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, line breaks and doubled quotes
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+  return records;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
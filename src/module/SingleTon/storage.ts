@@ -0,0 +1,110 @@
+import { LedgerEntry } from "./ledger";
+import { StockLot } from "./lots";
+import { PricePoint } from "./pricing";
+import { ReorderPolicy } from "./reorder";
+import { Reservation } from "./reservations";
+import { UnitRule } from "./units";
+
+// Persistence backends for the Inventory singleton
+// The inventory keeps working in memory and writes each change through to one of these adapters
+
+// Plain, serializable copy of the inventory state.
+// The ledger is the source of truth; the other fields are derived from it for readability.
+export interface InventorySnapshot {
+  ledger?: LedgerEntry[];
+  lots?: Array<[string, StockLot[]]>;
+  prices: Array<[string, number]>;
+  priceHistory?: Array<[string, PricePoint[]]>;
+  locations?: string[];
+  reservations?: Reservation[];
+  reorderPolicies?: Array<[string, ReorderPolicy]>;
+  unitRules?: Array<[string, UnitRule]>;
+  labels?: Array<[string, string]>;
+  // Plain quantities written before lots were tracked; read on hydration only
+  items?: Array<[string, number]>;
+}
+
+export interface InventoryStorage {
+  load(): Promise<InventorySnapshot | null>;
+  save(snapshot: InventorySnapshot): Promise<void>;
+}
+
+// Keeps the snapshot in memory only - the default, and handy for tests
+export class MemoryInventoryStorage implements InventoryStorage {
+  private snapshot: InventorySnapshot | null = null;
+
+  async load(): Promise<InventorySnapshot | null> {
+    return this.snapshot ? structuredClone(this.snapshot) : null;
+  }
+
+  async save(snapshot: InventorySnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+// Stores the snapshot as JSON under a single localStorage key
+export class LocalStorageInventoryStorage implements InventoryStorage {
+  constructor(
+    private readonly key: string = "inventory",
+    private readonly storage: Storage = globalThis.localStorage
+  ) {}
+
+  async load(): Promise<InventorySnapshot | null> {
+    const raw = this.storage.getItem(this.key);
+    return raw ? (JSON.parse(raw) as InventorySnapshot) : null;
+  }
+
+  async save(snapshot: InventorySnapshot): Promise<void> {
+    this.storage.setItem(this.key, JSON.stringify(snapshot));
+  }
+}
+
+// Stores the snapshot as a single record in an IndexedDB object store
+export class IndexedDBInventoryStorage implements InventoryStorage {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName: string = "inventory",
+    private readonly storeName: string = "snapshots",
+    private readonly key: string = "current"
+  ) {}
+
+  async load(): Promise<InventorySnapshot | null> {
+    const database = await this.open();
+    const store = database.transaction(this.storeName, "readonly").objectStore(this.storeName);
+    const snapshot = await requestToPromise<InventorySnapshot | undefined>(store.get(this.key));
+    return snapshot ?? null;
+  }
+
+  async save(snapshot: InventorySnapshot): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(this.storeName, "readwrite");
+    transaction.objectStore(this.storeName).put(snapshot, this.key);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    // Open the database lazily and reuse the connection afterwards
+    if (!this.database) {
+      const request = globalThis.indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this.database = requestToPromise(request);
+    }
+    return this.database;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,101 @@
+import { Inventory, tenantScopedName } from "./inventory";
+import { LedgerEntry } from "./ledger";
+
+// Cross-tab synchronisation: every tab of the same origin shares its ledger entries with the others,
+// so the per-tab singletons behave like one inventory. See Inventory.mergeEntries for the conflict rule.
+
+export type SyncMessage =
+  | { type: "entries"; source: string; entries: LedgerEntry[] }
+  // Sent by a tab that just started, asking the others for their full ledger
+  | { type: "hello"; source: string };
+
+export interface SyncTransport {
+  post(message: SyncMessage): void;
+  subscribe(handler: (message: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+export class BroadcastChannelTransport implements SyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  post(message: SyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: (message: SyncMessage) => void): () => void {
+    const listener = (event: MessageEvent<SyncMessage>) => handler(event.data);
+    this.channel.addEventListener("message", listener);
+    return () => this.channel.removeEventListener("message", listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+// Fallback for browsers without BroadcastChannel: writing to localStorage fires a
+// "storage" event in every other tab of the same origin
+export class StorageEventTransport implements SyncTransport {
+  constructor(
+    private readonly key: string,
+    private readonly storage: Storage = globalThis.localStorage
+  ) {}
+
+  post(message: SyncMessage): void {
+    // The nonce makes every write a change, otherwise repeating a message would not fire an event
+    this.storage.setItem(this.key, JSON.stringify({ message, nonce: crypto.randomUUID() }));
+  }
+
+  subscribe(handler: (message: SyncMessage) => void): () => void {
+    const listener = (event: StorageEvent) => {
+      if (event.key !== this.key || !event.newValue) return;
+      handler((JSON.parse(event.newValue) as { message: SyncMessage }).message);
+    };
+    globalThis.addEventListener("storage", listener);
+    return () => globalThis.removeEventListener("storage", listener);
+  }
+
+  close(): void {
+    this.storage.removeItem(this.key);
+  }
+}
+
+export function createSyncTransport(channelName: string = "inventory-sync"): SyncTransport {
+  return typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannelTransport(channelName)
+    : new StorageEventTransport(channelName);
+}
+
+// Starts sharing the inventory's ledger with other tabs; call the returned function to stop.
+// By default each tenant gets its own channel, so tenants never receive each other's entries.
+export function syncAcrossTabs(
+  inventory: Inventory,
+  transport: SyncTransport = createSyncTransport(tenantScopedName("inventory-sync", inventory.getTenant()))
+): () => void {
+  const source = crypto.randomUUID();
+
+  const stopRecording = inventory.onEntryRecorded((entry) => {
+    transport.post({ type: "entries", source, entries: [entry] });
+  });
+
+  const stopListening = transport.subscribe((message) => {
+    if (message.source === source) return;
+    if (message.type === "hello") {
+      transport.post({ type: "entries", source, entries: inventory.getLedger() });
+      return;
+    }
+    inventory.mergeEntries(message.entries);
+  });
+
+  transport.post({ type: "hello", source });
+
+  return () => {
+    stopRecording();
+    stopListening();
+    transport.close();
+  };
+}
@@ -0,0 +1,74 @@
+// Units of measure: every item is counted in one base unit, and its unit rule says how the
+// other units it may be bought or sold in convert to that base unit
+
+export type Unit = "each" | "kg" | "g" | "bunch" | "case";
+
+export const UNITS: ReadonlyArray<Unit> = ["each", "kg", "g", "bunch", "case"];
+
+export interface UnitRule {
+  baseUnit: Unit;
+  // How many base units one of each other unit holds, e.g. { case: 12 } for a case of twelve.
+  // Weights convert between kg and g on their own and need no entry.
+  perUnit: Partial<Record<Unit, number>>;
+}
+
+// Items without a rule of their own are counted by the piece
+export const DEFAULT_UNIT_RULE: UnitRule = { baseUnit: "each", perUnit: {} };
+
+const GRAMS: Partial<Record<Unit, number>> = { kg: 1000, g: 1 };
+
+// Quantities are kept to six decimal places (a milligram of a kilogram item). Summing and
+// subtracting them as scaled integers keeps 0.1 kg + 0.2 kg at exactly 0.3 kg.
+const QUANTITY_SCALE = 1_000_000;
+
+export function normalizeQuantity(quantity: number): number {
+  return Math.round(quantity * QUANTITY_SCALE) / QUANTITY_SCALE;
+}
+
+export function addQuantities(...quantities: number[]): number {
+  return quantities.reduce((total, quantity) => total + Math.round(quantity * QUANTITY_SCALE), 0) / QUANTITY_SCALE;
+}
+
+export function subtractQuantity(quantity: number, taken: number): number {
+  return (Math.round(quantity * QUANTITY_SCALE) - Math.round(taken * QUANTITY_SCALE)) / QUANTITY_SCALE;
+}
+
+// How many base units one unit holds under the rule, or null when the unit is not compatible
+export function unitFactor(rule: UnitRule, unit: Unit): number | null {
+  if (unit === rule.baseUnit) return 1;
+
+  const grams = GRAMS[unit];
+  const baseGrams = GRAMS[rule.baseUnit];
+  if (grams !== undefined && baseGrams !== undefined) return grams / baseGrams;
+
+  const factor = rule.perUnit[unit];
+  if (factor !== undefined) return factor;
+
+  // A rule given per kilogram covers grams too, and the other way round
+  if (grams !== undefined) {
+    const weight = UNITS.find((other) => GRAMS[other] !== undefined && rule.perUnit[other] !== undefined);
+    if (weight) return (rule.perUnit[weight]! * grams) / GRAMS[weight]!;
+  }
+  return null;
+}
+
+export function toBaseQuantity(quantity: number, unit: Unit, rule: UnitRule): number | null {
+  const factor = unitFactor(rule, unit);
+  return factor === null ? null : normalizeQuantity(quantity * factor);
+}
+
+// Converts between any two units the rule knows, or null when either is incompatible
+export function convertQuantity(quantity: number, from: Unit, to: Unit, rule: UnitRule): number | null {
+  const fromFactor = unitFactor(rule, from);
+  const toFactor = unitFactor(rule, to);
+  return fromFactor === null || toFactor === null ? null : normalizeQuantity((quantity * fromFactor) / toFactor);
+}
+
+// Units an item can be bought or sold in under the rule
+export function compatibleUnits(rule: UnitRule): Unit[] {
+  return UNITS.filter((unit) => unitFactor(rule, unit) !== null);
+}
+
+export function formatQuantity(quantity: number, unit: Unit): string {
+  return unit === "each" ? `${quantity}` : `${quantity} ${unit}`;
+}
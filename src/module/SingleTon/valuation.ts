@@ -0,0 +1,145 @@
+import { LedgerEntry, activeEntries } from "./ledger";
+import { addQuantities, subtractQuantity } from "./units";
+
+// Stock valuation and cost of goods sold, worked out by walking the ledger.
+// Costs follow the valuation method rather than the lots physically picked, so a FEFO sale
+// of a newer lot is still costed at the oldest purchase price under FIFO.
+
+export type ValuationMethod = "fifo" | "weighted-average";
+
+export const VALUATION_METHODS: ReadonlyArray<ValuationMethod> = ["fifo", "weighted-average"];
+
+export interface ItemValuation {
+  name: string;
+  quantity: number;
+  // Average cost of the units on hand
+  unitCost: number;
+  value: number;
+}
+
+export interface SaleMargin {
+  entryId: string;
+  name: string;
+  quantity: number;
+  timestamp: number;
+  revenue: number;
+  costOfGoods: number;
+  grossMargin: number;
+  // Share of revenue kept, 0 when the sale brought in nothing
+  marginPercent: number;
+}
+
+export interface ValuationReport {
+  method: ValuationMethod;
+  items: ItemValuation[];
+  totalValue: number;
+  revenue: number;
+  costOfGoodsSold: number;
+  grossMargin: number;
+  // Cost of stock written off as expired
+  writeOffCost: number;
+  sales: SaleMargin[];
+}
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+// Cost pool of one item: FIFO keeps a layer per receipt, weighted average a single blended layer
+type CostPool = CostLayer[];
+
+export function valueLedger(entries: ReadonlyArray<LedgerEntry>, method: ValuationMethod): ValuationReport {
+  const pools = new Map<string, CostPool>();
+  const sales: SaleMargin[] = [];
+  let writeOffCost = 0;
+
+  activeEntries(entries).forEach((entry) => {
+    switch (entry.type) {
+      case "receive": {
+        const pool = pools.get(entry.name) || [];
+        pools.set(entry.name, receive(pool, { quantity: entry.quantity, unitCost: entry.lot.unitCost }, method));
+        break;
+      }
+      case "sell":
+      case "confirm-reservation": {
+        const { pool, cost } = issue(pools.get(entry.name) || [], entry.quantity);
+        pools.set(entry.name, pool);
+        const revenue = roundMoney(entry.quantity * entry.price);
+        const costOfGoods = roundMoney(cost);
+        sales.push({
+          entryId: entry.id,
+          name: entry.name,
+          quantity: entry.quantity,
+          timestamp: entry.timestamp,
+          revenue,
+          costOfGoods,
+          grossMargin: roundMoney(revenue - costOfGoods),
+          marginPercent: revenue > 0 ? ((revenue - costOfGoods) / revenue) * 100 : 0,
+        });
+        break;
+      }
+      case "write-off": {
+        const { pool, cost } = issue(pools.get(entry.name) || [], entry.quantity);
+        pools.set(entry.name, pool);
+        writeOffCost += cost;
+        break;
+      }
+    }
+  });
+
+  const items = Array.from(pools.entries())
+    .map(([name, pool]) => valuePool(name, pool))
+    .filter((item) => item.quantity > 0);
+  const revenue = sales.reduce((total, sale) => total + sale.revenue, 0);
+  const costOfGoodsSold = sales.reduce((total, sale) => total + sale.costOfGoods, 0);
+
+  return {
+    method,
+    items,
+    totalValue: roundMoney(items.reduce((total, item) => total + item.value, 0)),
+    revenue: roundMoney(revenue),
+    costOfGoodsSold: roundMoney(costOfGoodsSold),
+    grossMargin: roundMoney(revenue - costOfGoodsSold),
+    writeOffCost: roundMoney(writeOffCost),
+    sales,
+  };
+}
+
+function receive(pool: CostPool, layer: CostLayer, method: ValuationMethod): CostPool {
+  if (method === "fifo" || pool.length === 0) return [...pool, layer];
+
+  const [current] = pool;
+  const quantity = addQuantities(current.quantity, layer.quantity);
+  const value = current.quantity * current.unitCost + layer.quantity * layer.unitCost;
+  return [{ quantity, unitCost: quantity > 0 ? value / quantity : layer.unitCost }];
+}
+
+// Takes quantity out of the pool oldest layer first and returns what it cost.
+// Issuing more than the pool holds (possible after merging tabs) costs only what is there.
+function issue(pool: CostPool, quantity: number): { pool: CostPool; cost: number } {
+  let outstanding = quantity;
+  let cost = 0;
+  const remaining = pool.map((layer) => {
+    const taken = Math.min(layer.quantity, outstanding);
+    outstanding = subtractQuantity(outstanding, taken);
+    cost += taken * layer.unitCost;
+    return { ...layer, quantity: subtractQuantity(layer.quantity, taken) };
+  });
+  return { pool: remaining.filter((layer) => layer.quantity > 0), cost };
+}
+
+function valuePool(name: string, pool: CostPool): ItemValuation {
+  const quantity = addQuantities(...pool.map((layer) => layer.quantity));
+  const value = pool.reduce((total, layer) => total + layer.quantity * layer.unitCost, 0);
+  return {
+    name,
+    quantity,
+    unitCost: quantity > 0 ? roundMoney(value / quantity) : 0,
+    value: roundMoney(value),
+  };
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
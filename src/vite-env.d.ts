@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated fruit family keys to offer, e.g. "organic,local"; all families when unset
+  readonly VITE_FRUIT_FAMILIES?: string;
+  // Fruit family selected when the app starts
+  readonly VITE_FRUIT_FAMILY?: string;
+  // Units per US dollar of the currencies shown besides dollars, e.g. "IDR=16000"; prices stay in dollars when unset
+  readonly VITE_EXCHANGE_RATES?: string;
+}